@@ -0,0 +1,51 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { FetchError } from "../fetch.ts";
+import type { Fetcher, Renderer } from "../crawl.ts";
+import { DEFAULT_SITE, type SiteConfig } from "../site.ts";
+
+export const FIXTURE_BASE_URL = "https://docs.fixture.test";
+
+/**
+ * The default site profile, pointed at another host.
+ */
+export function fixtureSite(baseUrl = FIXTURE_BASE_URL): SiteConfig {
+  return { ...DEFAULT_SITE, baseUrl };
+}
+
+/**
+ * Read a recorded HTML page from this directory.
+ */
+export function readFixture(name: string): string {
+  return readFileSync(join(import.meta.dir, name), "utf8");
+}
+
+/**
+ * Serve recorded pages by path, politeFetch-style: unknown paths throw a
+ * 404 FetchError. Requested URLs are pushed onto `requests`.
+ */
+export function fixtureFetcher(pages: Record<string, string>, requests: string[] = []): Fetcher {
+  return async (url) => {
+    requests.push(url);
+    const html = pages[new URL(url).pathname];
+    if (html === undefined) throw new FetchError(url, 404, 1, "HTTP 404");
+    return new Response(html, { headers: { "Content-Type": "text/html", ETag: `"${html.length}"` } });
+  };
+}
+
+/**
+ * Renderer returning recorded "after JavaScript" HTML by path.
+ */
+export function fixtureRenderer(pages: Record<string, string>): Renderer & { rendered: string[] } {
+  const rendered: string[] = [];
+  return {
+    rendered,
+    async render(url) {
+      rendered.push(url);
+      const html = pages[new URL(url).pathname];
+      if (html === undefined) throw new Error(`No rendered fixture for ${url}`);
+      return html;
+    },
+    async close() {},
+  };
+}
@@ -0,0 +1,52 @@
+import { createHash } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { CACHE_FILE, CACHE_VERSION } from "./config.ts";
+import type { CrawlResult } from "./crawl.ts";
+
+export interface CacheEntry {
+  // Hash of the markdown that was chunked for this page
+  contentHash: string;
+  // IDs of the chunks written for this page on the last run
+  chunkIds: string[];
+  page: CrawlResult;
+}
+
+export interface CrawlCache {
+  version: number;
+  pages: Record<string, CacheEntry>;
+}
+
+export function emptyCache(): CrawlCache {
+  return { version: CACHE_VERSION, pages: {} };
+}
+
+/**
+ * Load the crawl cache from disk. A missing, unreadable or outdated cache
+ * is treated as empty, which forces a full rebuild.
+ */
+export function loadCache(file = CACHE_FILE): CrawlCache {
+  if (!existsSync(file)) return emptyCache();
+
+  try {
+    const cache = JSON.parse(readFileSync(file, "utf-8")) as CrawlCache;
+    if (cache.version !== CACHE_VERSION) {
+      console.log(`  Crawl cache is version ${cache.version}, expected ${CACHE_VERSION}. Ignoring it.`);
+      return emptyCache();
+    }
+    return cache;
+  } catch (err) {
+    console.error(`  [CACHE ERROR] ${file}: ${err}`);
+    return emptyCache();
+  }
+}
+
+export function saveCache(cache: CrawlCache, file = CACHE_FILE): void {
+  writeFileSync(file, JSON.stringify(cache, null, 2));
+}
+
+/**
+ * Stable hash of extracted page content, used to detect unchanged pages.
+ */
+export function hashContent(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
@@ -0,0 +1,257 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { chunkPage, findIdCollisions, pageSlug } from "./chunk.ts";
+import { extractFromHtml, type CrawlResult } from "./crawl.ts";
+import { MAX_CHUNK_TOKENS } from "./config.ts";
+import { runExporters } from "./export.ts";
+import { buildRedactionRules, redactPage } from "./redact.ts";
+import { sanitizePage } from "./sanitize.ts";
+import { DEFAULT_SITE } from "./site.ts";
+import { FIXTURE_BASE_URL, fixtureSite, readFixture } from "./__fixtures__/fixtures.ts";
+
+function page(fixture: string, path: string): CrawlResult {
+  const result = extractFromHtml(
+    readFixture(fixture),
+    `${FIXTURE_BASE_URL}${path}`,
+    path,
+    "Fixtures",
+    "static",
+    fixtureSite()
+  );
+  return redactPage({ ...result, crawledAt: "<crawledAt>" }, buildRedactionRules(DEFAULT_SITE.redactions));
+}
+
+function pageWithMarkdown(markdown: string, path = "/docs/long-page", title = "Long Page"): CrawlResult {
+  return {
+    url: `${FIXTURE_BASE_URL}${path}`,
+    path,
+    section: "Fixtures",
+    title,
+    description: "",
+    markdown,
+    discoveredPaths: [],
+    schemas: [],
+    openapi: [],
+    crawledAt: "<crawledAt>",
+    fetchMethod: "static",
+  };
+}
+
+describe("chunkPage", () => {
+  test("matches the snapshot for a ReadMe article", () => {
+    expect(chunkPage(page("readme-article.html", "/docs/oauth"))).toMatchSnapshot();
+  });
+
+  test("matches the snapshot for a rendered page", () => {
+    expect(chunkPage(page("thin-rendered.html", "/docs/events-testing"))).toMatchSnapshot();
+  });
+
+  test("derives chunk IDs from the page path", () => {
+    const chunks = chunkPage(page("readme-article.html", "/docs/oauth"));
+    expect(chunks.map((c) => c.id)).toEqual(chunks.map((_, i) => `oauth-${String(i).padStart(2, "0")}`));
+    expect(pageSlug("/docs/API v3.1: What's New")).toBe("api-v3-1-what-s-new");
+  });
+
+  test("returns no chunks for an empty page", () => {
+    expect(chunkPage(pageWithMarkdown("  \n"))).toEqual([]);
+  });
+
+  test("splits oversized sections without breaking code blocks or tables", () => {
+    const code = Array.from({ length: 400 }, (_, i) => `  "field_${i}": "value number ${i}",`).join("\n");
+    const rows = Array.from({ length: 300 }, (_, i) => `| field_${i} | string | Description of field ${i} |`);
+    const markdown = [
+      "## Example response",
+      "",
+      "```json",
+      code,
+      "```",
+      "",
+      "## Fields",
+      "",
+      "| Field | Type | Description |",
+      "| --- | --- | --- |",
+      ...rows,
+    ].join("\n");
+
+    const chunks = chunkPage(pageWithMarkdown(markdown));
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(chunk.tokenEstimate).toBeLessThanOrEqual(MAX_CHUNK_TOKENS);
+      expect((chunk.content.match(/^```/gm) ?? []).length % 2).toBe(0);
+      if (chunk.heading === "Fields") {
+        expect(chunk.content).toContain("| Field | Type | Description |\n| --- | --- | --- |");
+      }
+    }
+    expect(findIdCollisions(chunks)).toEqual([]);
+  });
+
+  test("splits a paragraph too long for one chunk at sentence boundaries", () => {
+    const sentences = Array.from({ length: 400 }, (_, i) => `Sentence ${i} explains how field_${i} is synced.`);
+    const chunks = chunkPage(pageWithMarkdown(["## Syncing", "", sentences.join(" ")].join("\n")));
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.tokenEstimate).toBeLessThanOrEqual(MAX_CHUNK_TOKENS);
+      expect(chunk.content).toMatch(/^## Syncing\n\nSentence \d+ explains .*synced\.$/s);
+    }
+    const body = chunks.map((c) => c.content.replace("## Syncing\n\n", "")).join(" ");
+    expect(body).toBe(sentences.join(" "));
+  });
+
+  describe("page export", () => {
+    const dir = mkdtempSync(join(tmpdir(), "spider-pages-"));
+    afterAll(() => rmSync(dir, { recursive: true }));
+
+    test("rebuilds a split section with its heading once", () => {
+      const rows = Array.from({ length: 300 }, (_, i) => `| field_${i} | string | Description of field ${i} |`);
+      const markdown = ["## Fields", "", "| Field | Type | Description |", "| --- | --- | --- |", ...rows].join("\n");
+      const page = pageWithMarkdown(markdown);
+      const chunks = chunkPage(page);
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.slice(1).every((c) => c.continued && c.content.startsWith("## Fields\n"))).toBe(true);
+
+      const [file] = runExporters(["pages"], { site: { ...fixtureSite(), outputDir: dir }, pages: [page], chunks });
+      const exported = readFileSync(file, "utf-8");
+      expect(exported.match(/^## Fields$/gm)).toHaveLength(1);
+      expect(exported).toContain("| field_299 | string | Description of field 299 |");
+    });
+  });
+
+  test("deep-links each chunk to its heading anchor", () => {
+    const prose = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} about this section.`).join(" ");
+    const code = Array.from({ length: 400 }, (_, i) => `  "field_${i}": "value number ${i}",`).join("\n");
+    const markdown = [
+      prose,
+      "## Fields",
+      prose,
+      "### ???",
+      prose,
+      "## Fields",
+      prose,
+      "## Example response",
+      "```json\n" + code + "\n```",
+    ].join("\n\n");
+
+    const url = `${FIXTURE_BASE_URL}/docs/long-page`;
+    const chunks = chunkPage(pageWithMarkdown(markdown));
+    expect(chunks.map((c) => c.anchorUrl.replace(url, ""))).toEqual([
+      "",
+      "#fields",
+      // No slug-worthy text, so the enclosing heading
+      "#fields",
+      "#fields-1",
+      ...chunks.slice(4).map(() => "#example-response"),
+    ]);
+    expect(chunks.length).toBeGreaterThan(5);
+  });
+
+  test("keeps ReadMe's anchors for split headings", () => {
+    const prose = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} about this section.`).join(" ");
+    const heading = (text: string, anchor: string) => `##\n\n${text}\n\n[](#${anchor})`;
+    const markdown = [
+      heading("Initiating logins & user experience", "initiating-logins--user-experience"),
+      prose,
+      heading("Fields", "fields"),
+      prose,
+      heading("Fields", "fields-1"),
+      prose,
+      heading("Étape 2", "tape-2"),
+      prose,
+    ].join("\n\n");
+
+    const url = `${FIXTURE_BASE_URL}/docs/long-page`;
+    const chunks = chunkPage(sanitizePage(pageWithMarkdown(markdown)));
+    expect(chunks.map((c) => c.anchorUrl.replace(url, ""))).toEqual([
+      "#initiating-logins--user-experience",
+      "#fields",
+      "#fields-1",
+      "#tape-2",
+    ]);
+    expect(chunks[3].heading).toBe("Étape 2");
+    expect(chunks[3].content).not.toContain("{#");
+  });
+});
+
+describe("FAQ chunking", () => {
+  const answer = (topic: string) =>
+    Array.from({ length: 12 }, (_, i) => `Sentence ${i} answering the question about ${topic}.`).join(" ");
+
+  test("emits one chunk per question heading, with its subsections", () => {
+    const markdown = [
+      "Common questions about API v3.x.",
+      "## Will users have new IDs in v3.0?",
+      answer("IDs"),
+      "### Example",
+      "An example of the new IDs.",
+      "## Can a user have more than one role?",
+      answer("roles"),
+      "## What is the upper limit of roles per user?",
+      answer("limits"),
+    ].join("\n\n");
+
+    const chunks = chunkPage(pageWithMarkdown(markdown, "/docs/api-v3-faqs", "API v3.x FAQs"));
+    expect(chunks.map((c) => [c.kind ?? null, c.heading])).toEqual([
+      [null, "API v3.x FAQs"],
+      ["faq", "Will users have new IDs in v3.0?"],
+      ["faq", "Can a user have more than one role?"],
+      ["faq", "What is the upper limit of roles per user?"],
+    ]);
+    expect(chunks[1].content).toContain("An example of the new IDs.");
+    expect(chunks[2].anchorUrl).toBe(`${FIXTURE_BASE_URL}/docs/api-v3-faqs#can-a-user-have-more-than-one-role`);
+  });
+
+  test("reads bold question lines and accordions as questions", () => {
+    const html = `<html><head><title>Rostering | Clever Dev Docs</title></head><body><main class="rm-Guides">
+      <article class="rm-Article"><header><h1 class="rm-Article-title">Rostering</h1></header><div class="markdown-body">
+        <h2>Common questions</h2>
+        <p><strong>How often do districts sync?</strong></p><p>${answer("syncs")}</p>
+        <p><strong>Q:</strong> Can I write data back?</p><p>${answer("writes")}</p>
+        <details><summary>What happens to archived sections?</summary><p>${answer("archives")}</p></details>
+      </div></article></main></body></html>`;
+
+    const chunks = chunkPage(
+      extractFromHtml(html, `${FIXTURE_BASE_URL}/docs/rostering`, "/docs/rostering", "Fixtures", "static", fixtureSite())
+    );
+    const faqs = chunks.filter((c) => c.kind === "faq");
+    expect(faqs.map((c) => c.heading)).toEqual([
+      "How often do districts sync?",
+      "Can I write data back?",
+      "What happens to archived sections?",
+    ]);
+    expect(faqs.every((c) => c.anchorUrl === `${FIXTURE_BASE_URL}/docs/rostering#common-questions`)).toBe(true);
+    expect(faqs[2].parentHeadings).toEqual(["Rostering", "Common questions", "What happens to archived sections?"]);
+  });
+
+  test("treats every answered heading as a question on troubleshooting pages", () => {
+    const markdown = ["# Error Handling", "## 404 Errors", answer("404s"), "## Data Warnings", answer("warnings")].join("\n\n");
+    const chunks = chunkPage(pageWithMarkdown(markdown, "/docs/sync-troubleshooting", "Troubleshooting Your Sync"));
+    expect(chunks.filter((c) => c.kind === "faq").map((c) => c.heading)).toEqual(["404 Errors", "Data Warnings"]);
+  });
+
+  test("leaves pages with only a stray question alone", () => {
+    const markdown = ["## What's next?", answer("next steps"), "## Setup", answer("setup")].join("\n\n");
+    expect(chunkPage(pageWithMarkdown(markdown)).some((c) => c.kind)).toBe(false);
+  });
+
+  describe("faq export", () => {
+    const dir = mkdtempSync(join(tmpdir(), "spider-faq-"));
+    afterAll(() => rmSync(dir, { recursive: true }));
+
+    test("writes question/answer pairs", () => {
+      const markdown = ["## Do users have a primary role?", "No. Every role is equal."].join("\n\n");
+      const chunks = chunkPage(pageWithMarkdown(markdown, "/docs/roles-faq", "Roles FAQ"));
+      const [file] = runExporters(["faq"], { site: { ...fixtureSite(), outputDir: dir }, pages: [], chunks });
+      expect(file).toBe(join(dir, "faq.jsonl"));
+      expect(JSON.parse(readFileSync(file, "utf-8"))).toEqual({
+        id: "roles-faq-00",
+        question: "Do users have a primary role?",
+        answer: "No. Every role is equal.",
+        url: `${FIXTURE_BASE_URL}/docs/roles-faq#do-users-have-a-primary-role`,
+        path: "/docs/roles-faq",
+        title: "Roles FAQ",
+        section: "Fixtures",
+      });
+    });
+  });
+});
@@ -1,9 +1,16 @@
+import { createHash } from "crypto";
+import { Lexer, type Token, type Tokens } from "marked";
 import type { CrawlResult } from "./crawl.ts";
-import { MAX_CHUNK_TOKENS, MIN_CHUNK_TOKENS } from "./config.ts";
+import type { ChunkLink } from "./links.ts";
+import type { ChunkRedaction } from "./redact.ts";
+import { FAQ_PAGE_PATTERN, MAX_CHUNK_TOKENS, MIN_CHUNK_TOKENS, MIN_FAQ_QUESTIONS } from "./config.ts";
+import { countTokens } from "./tokenizer.ts";
 
 export interface DocChunk {
   id: string;
   url: string;
+  // `url` plus the anchor of the heading the chunk starts at
+  anchorUrl: string;
   path: string;
   section: string;
   title: string;
@@ -16,13 +23,23 @@ export interface DocChunk {
   fetchMethod: "static" | "playwright";
   chunkIndex: number;
   totalChunks: number;
-}
-
-/**
- * Rough token estimate: ~4 chars per token for English text.
- */
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+  // "endpoint" for chunks generated from an API definition rather than
+  // page prose; "faq" for one question and its answer on an FAQ-style page
+  kind?: "endpoint" | "faq";
+  // Anchors of the headings in this chunk, numbered the way ReadMe numbers
+  // them, so links can be resolved to the chunk holding the heading
+  anchors?: string[];
+  // A later piece of a section too large for one chunk. Its content
+  // repeats the section heading for context.
+  continued?: boolean;
+  // What was redacted from this chunk, and on which line
+  redactions?: ChunkRedaction[];
+  // Links to other pages on the site, resolved to chunk IDs
+  links?: ChunkLink[];
+  // What the chunk is specific to, from the site's tag rules
+  apiVersions?: string[];
+  products?: string[];
+  audience?: string[];
 }
 
 /**
@@ -35,24 +52,121 @@ function slugify(text: string): string {
     .replace(/^-|-$/g, "");
 }
 
+/**
+ * The in-page anchor ReadMe generates for a heading, one hyphen per space:
+ * "v3.1 Only" -> "v31-only", "Logins & user experience" -> "logins--user-experience".
+ */
+export function headingAnchor(heading: string): string {
+  return heading
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .trim()
+    .replace(/\s/g, "-");
+}
+
+/**
+ * Split a heading's text from the anchor ReadMe gave it. Sanitizing keeps
+ * that anchor as "Heading {#anchor}" when it differs from the derived one.
+ */
+export function parseHeading(text: string): { heading: string; anchor: string | null } {
+  const match = text.match(/^(.*?)\s*\{#([^}\s]+)\}$/);
+  return match ? { heading: match[1].trim(), anchor: match[2] } : { heading: text.trim(), anchor: null };
+}
+
+/**
+ * Number an anchor that already appeared on the page the way ReadMe does
+ * ("fields", "fields-1", ...). `counts` tracks the anchors seen so far.
+ */
+function numberAnchor(anchor: string, counts: Map<string, number>): string {
+  if (!anchor) return anchor;
+  const seen = counts.get(anchor) ?? 0;
+  counts.set(anchor, seen + 1);
+  return seen > 0 ? `${anchor}-${seen}` : anchor;
+}
+
+/**
+ * The anchor for a heading's text: the one ReadMe gave it when sanitizing
+ * kept it, else derived from the text and numbered.
+ */
+export function resolveAnchor(text: string, counts: Map<string, number>): string {
+  const { heading, anchor } = parseHeading(text);
+  if (!anchor) return numberAnchor(headingAnchor(heading), counts);
+  counts.set(anchor, (counts.get(anchor) ?? 0) + 1);
+  return anchor;
+}
+
+/**
+ * Derive a stable page slug from its path ("/docs/courses" -> "courses").
+ * Falls back to a short hash of the path when nothing slug-worthy is left.
+ */
+export function pageSlug(path: string): string {
+  const slug = slugify(path.replace(/^\/docs\//, ""));
+  if (slug) return slug;
+  return `page-${createHash("sha256").update(path).digest("hex").slice(0, 10)}`;
+}
+
+/**
+ * The title-based ID a chunk had before IDs were derived from paths.
+ * Kept so old IDs can be redirected via the manifest's alias map.
+ */
+export function legacyChunkId(chunk: DocChunk): string {
+  const slug = slugify(chunk.title || chunk.path.split("/").pop() || "unknown");
+  return `${slug}-${String(chunk.chunkIndex).padStart(2, "0")}`;
+}
+
+/**
+ * Find chunk IDs shared by more than one chunk. Each collision would
+ * silently overwrite another chunk's file.
+ */
+export function findIdCollisions(chunks: DocChunk[]): Array<{ id: string; paths: string[] }> {
+  const byId = new Map<string, string[]>();
+  for (const chunk of chunks) {
+    const paths = byId.get(chunk.id) ?? [];
+    paths.push(chunk.path);
+    byId.set(chunk.id, paths);
+  }
+
+  return [...byId.entries()]
+    .filter(([, paths]) => paths.length > 1)
+    .map(([id, paths]) => ({ id, paths }));
+}
+
 interface Section {
   heading: string;
   headingLevel: number;
+  // ReadMe's anchor for the heading; empty when there's no heading or
+  // nothing slug-worthy in it
+  anchor: string;
+  // Anchors of every heading in the section, its own first ("" for
+  // headings without one)
+  anchors: string[];
   content: string;
+  // A question and its answer on an FAQ-style page
+  question?: boolean;
+  // A later piece of a split section, starting with the repeated heading
+  continued?: boolean;
 }
 
 /**
  * Split markdown into sections by heading boundaries.
+ * Lines inside fenced code blocks (e.g. "# comment" in a shell example)
+ * are never treated as headings. Repeated headings get numbered anchors
+ * ("fields", "fields-1", ...) the way ReadMe numbers them, unless the
+ * heading carries ReadMe's own anchor.
  */
 function splitByHeadings(markdown: string): Section[] {
   const lines = markdown.split("\n");
   const sections: Section[] = [];
+  const anchorCounts = new Map<string, number>();
   let currentHeading = "";
   let currentLevel = 0;
+  let currentAnchor = "";
   let currentLines: string[] = [];
+  let inFence = false;
 
   for (const line of lines) {
-    const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const headingMatch = inFence ? null : line.match(/^(#{1,6})\s+(.+)$/);
 
     if (headingMatch) {
       // Save previous section
@@ -60,12 +174,15 @@ function splitByHeadings(markdown: string): Section[] {
         sections.push({
           heading: currentHeading,
           headingLevel: currentLevel,
+          anchor: currentAnchor,
+          anchors: currentLevel > 0 ? [currentAnchor] : [],
           content: currentLines.join("\n").trim(),
         });
       }
-      currentHeading = headingMatch[2].trim();
+      currentHeading = parseHeading(headingMatch[2]).heading;
       currentLevel = headingMatch[1].length;
-      currentLines = [line];
+      currentAnchor = resolveAnchor(headingMatch[2], anchorCounts);
+      currentLines = [`${headingMatch[1]} ${currentHeading}`];
     } else {
       currentLines.push(line);
     }
@@ -76,6 +193,8 @@ function splitByHeadings(markdown: string): Section[] {
     sections.push({
       heading: currentHeading,
       headingLevel: currentLevel,
+      anchor: currentAnchor,
+      anchors: currentLevel > 0 ? [currentAnchor] : [],
       content: currentLines.join("\n").trim(),
     });
   }
@@ -90,15 +209,17 @@ function mergeSections(sections: Section[]): Section[] {
   const merged: Section[] = [];
 
   for (const section of sections) {
-    const tokens = estimateTokens(section.content);
+    const tokens = countTokens(section.content);
 
     if (
       merged.length > 0 &&
       tokens < MIN_CHUNK_TOKENS &&
-      estimateTokens(merged[merged.length - 1].content) + tokens < MAX_CHUNK_TOKENS
+      countTokens(merged[merged.length - 1].content) + tokens < MAX_CHUNK_TOKENS
     ) {
       // Merge into previous section
-      merged[merged.length - 1].content += "\n\n" + section.content;
+      const previous = merged[merged.length - 1];
+      previous.content += "\n\n" + section.content;
+      previous.anchors = [...previous.anchors, ...section.anchors];
     } else {
       merged.push({ ...section });
     }
@@ -107,45 +228,240 @@ function mergeSections(sections: Section[]): Section[] {
   return merged;
 }
 
+/**
+ * The question on a bold line ("**Can a user have several roles?**") or a
+ * labelled one ("**Q:** Can a user ...", "Q: Can a user ..."). Accordion
+ * summaries are rendered as bold lines, so question accordions count too.
+ */
+function questionLine(line: string): string | null {
+  const text = line.trim();
+  const plain = text.replace(/\*\*|__/g, "").trim();
+  const labelled = plain.match(/^Q(?:uestion)?\s*[:.]\s*(.+)$/i);
+  if (labelled) return labelled[1];
+  return /^(\*\*|__).*(\*\*|__)$/.test(text) && plain.endsWith("?") ? plain : null;
+}
+
+/**
+ * Split a section at question lines, one question section per line. Each
+ * sits one level below the section it was found in, and links to that
+ * section's anchor.
+ */
+function splitQuestionLines(section: Section): Section[] {
+  const sections: Section[] = [{ ...section, content: "" }];
+  const lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    sections[sections.length - 1].content = lines.join("\n").trim();
+    lines.length = 0;
+  };
+
+  for (const line of section.content.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const question = inFence ? null : questionLine(line);
+    if (question) {
+      flush();
+      sections.push({ heading: question, headingLevel: section.headingLevel + 1, anchor: "", anchors: [], content: "", question: true });
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return sections.filter((s) => s.content || s.question);
+}
+
+/**
+ * Mark the questions on an FAQ-style page: one with at least
+ * MIN_FAQ_QUESTIONS question headings or question lines, or one whose path
+ * or title matches FAQ_PAGE_PATTERN. On the latter, if nothing reads as a
+ * question, every heading with content under it is taken as one
+ * ("404 Errors" on a troubleshooting page). Returns null for other pages.
+ */
+function markQuestions(page: CrawlResult, sections: Section[]): Section[] | null {
+  const marked = sections
+    .flatMap(splitQuestionLines)
+    .map((s) => (s.headingLevel > 0 && /\?\s*$/.test(s.heading) ? { ...s, question: true } : s));
+  const questions = marked.filter((s) => s.question).length;
+
+  if (questions >= MIN_FAQ_QUESTIONS) return marked;
+  if (!new RegExp(FAQ_PAGE_PATTERN, "i").test(`${page.path}\n${page.title}`)) return null;
+  if (questions > 0) return marked;
+
+  return sections.map((s) =>
+    s.headingLevel > 0 && s.heading !== page.title && s.content.split("\n").slice(1).join("\n").trim()
+      ? { ...s, question: true }
+      : s
+  );
+}
+
+/**
+ * Keep each question whole, with any subsections under it, and merge the
+ * sections between questions as usual.
+ */
+function groupFaqSections(sections: Section[]): Section[] {
+  const grouped: Section[] = [];
+  let between: Section[] = [];
+  let question: Section | null = null;
+
+  for (const section of sections) {
+    if (section.question) {
+      grouped.push(...mergeSections(between));
+      between = [];
+      question = { ...section };
+      grouped.push(question);
+    } else if (question && section.headingLevel > question.headingLevel) {
+      question.content += "\n\n" + section.content;
+      question.anchors = [...question.anchors, ...section.anchors];
+    } else {
+      question = null;
+      between.push(section);
+    }
+  }
+  grouped.push(...mergeSections(between));
+
+  return grouped;
+}
+
+/**
+ * Split markdown into top-level blocks (paragraphs, code blocks, tables,
+ * lists, blockquote callouts, ...) that are kept whole when chunking.
+ */
+function splitBlocks(markdown: string): Token[] {
+  return new Lexer().lex(markdown).filter((block) => block.raw.trim());
+}
+
+/**
+ * Split prose after each sentence and line break, keeping the whitespace
+ * with the piece before it so joining the pieces gives the text back.
+ */
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?]["')\]*_]*[ \t]+|\n)/).filter(Boolean);
+}
+
+/**
+ * Split a block that doesn't fit in a chunk on its own at safe boundaries:
+ * code at line boundaries (re-opening the fence with its language), tables
+ * at row boundaries (repeating the header), lists at item boundaries,
+ * paragraphs at sentences and blockquotes at lines (repeating a callout's
+ * marker). Anything else is returned whole.
+ */
+function splitOversizedBlock(block: Token, budget: number): string[] {
+  const raw = block.raw.trim();
+  let units: string[];
+  let wrap: (lines: string[]) => string;
+
+  if (block.type === "code" && (block as Tokens.Code).codeBlockStyle !== "indented") {
+    const code = block as Tokens.Code;
+    const fence = raw.match(/^(`{3,}|~{3,})/)?.[1] ?? "```";
+    units = code.text.split("\n");
+    wrap = (lines) => `${fence}${code.lang ?? ""}\n${lines.join("\n")}\n${fence}`;
+  } else if (block.type === "table") {
+    const [header, delimiter, ...rows] = raw.split("\n");
+    units = rows;
+    wrap = (lines) => [header, delimiter, ...lines].join("\n");
+  } else if (block.type === "list") {
+    units = (block as Tokens.List).items.map((item) => item.raw.trimEnd());
+    wrap = (lines) => lines.join("\n");
+  } else if (block.type === "paragraph") {
+    units = splitSentences(raw);
+    wrap = (sentences) => sentences.join("").trim();
+  } else if (block.type === "blockquote") {
+    const lines = raw.split("\n");
+    const marker = /^>\s*\[!\w+\]\s*$/.test(lines[0]) ? lines.shift()! : null;
+    // A quoted line too long on its own is split into one line per sentence
+    units = lines.flatMap((line) =>
+      countTokens(line) > budget ? splitSentences(line.replace(/^>\s?/, "")).map((s) => `> ${s.trim()}`) : [line]
+    );
+    wrap = (lines) => [...(marker ? [marker] : []), ...lines].join("\n");
+  } else {
+    return [raw];
+  }
+
+  const overhead = countTokens(wrap([]));
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let currentTokens = overhead;
+
+  for (const unit of units) {
+    const unitTokens = countTokens(unit) + 1;
+    if (currentTokens + unitTokens > budget && current.length > 0) {
+      pieces.push(wrap(current));
+      current = [];
+      currentTokens = overhead;
+    }
+    current.push(unit);
+    currentTokens += unitTokens;
+  }
+
+  if (current.length > 0) {
+    pieces.push(wrap(current));
+  }
+
+  return pieces;
+}
+
 /**
  * Split a single large section into smaller pieces if it exceeds MAX_CHUNK_TOKENS.
- * Splits on paragraph boundaries.
+ * Splits between markdown blocks, never inside a code block, table, list or
+ * blockquote unless that block alone is too large. Every piece starts with
+ * the section heading so continuation chunks keep their context.
  */
 function splitLargeSection(section: Section): Section[] {
-  const tokens = estimateTokens(section.content);
+  const tokens = countTokens(section.content);
   if (tokens <= MAX_CHUNK_TOKENS) return [section];
 
-  const paragraphs = section.content.split(/\n\n+/);
-  const result: Section[] = [];
-  let currentParagraphs: string[] = [];
+  const headingLine = section.headingLevel > 0 ? `${"#".repeat(section.headingLevel)} ${section.heading}` : "";
+  const headingTokens = headingLine ? countTokens(headingLine) : 0;
+  const budget = MAX_CHUNK_TOKENS - headingTokens;
+
+  const blocks = splitBlocks(section.content);
+  if (headingLine && blocks[0]?.type === "heading") {
+    blocks.shift();
+  }
+
+  // Anchors of the merged-in headings, handed to the piece each lands in
+  const own = section.anchors.slice(0, section.headingLevel > 0 ? 1 : 0);
+  const merged = section.anchors.slice(own.length);
+
+  const pieces: Array<{ content: string; anchors: string[] }> = [];
+  let current: string[] = [];
+  let currentAnchors = own;
   let currentTokens = 0;
 
-  for (const para of paragraphs) {
-    const paraTokens = estimateTokens(para);
-
-    if (currentTokens + paraTokens > MAX_CHUNK_TOKENS && currentParagraphs.length > 0) {
-      result.push({
-        heading: section.heading,
-        headingLevel: section.headingLevel,
-        content: currentParagraphs.join("\n\n"),
-      });
-      currentParagraphs = [];
-      currentTokens = 0;
-    }
+  for (const block of blocks) {
+    const text = block.raw.trim();
+    const parts = countTokens(text) > budget ? splitOversizedBlock(block, budget) : [text];
+
+    for (const part of parts) {
+      // +2 covers the blank line joining it to the previous block
+      const partTokens = countTokens(part) + 2;
 
-    currentParagraphs.push(para);
-    currentTokens += paraTokens;
+      if (currentTokens + partTokens > budget && current.length > 0) {
+        pieces.push({ content: current.join("\n\n"), anchors: currentAnchors });
+        current = [];
+        currentAnchors = [];
+        currentTokens = 0;
+      }
+
+      current.push(part);
+      currentTokens += partTokens;
+    }
+    if (block.type === "heading") currentAnchors = [...currentAnchors, merged.shift() ?? ""];
   }
 
-  if (currentParagraphs.length > 0) {
-    result.push({
-      heading: section.heading,
-      headingLevel: section.headingLevel,
-      content: currentParagraphs.join("\n\n"),
-    });
+  if (current.length > 0) {
+    pieces.push({ content: current.join("\n\n"), anchors: currentAnchors });
   }
 
-  return result;
+  return pieces.map(({ content, anchors }, i) => ({
+    heading: section.heading,
+    headingLevel: section.headingLevel,
+    anchor: section.anchor,
+    anchors,
+    question: section.question,
+    continued: i > 0 && Boolean(headingLine),
+    content: headingLine ? `${headingLine}\n\n${content}` : content,
+  }));
 }
 
 /**
@@ -172,17 +488,34 @@ function buildHeadingHierarchy(sections: Section[], pageTitle: string): string[]
   return hierarchies;
 }
 
+/**
+ * Deep link for a section: its own heading anchor, else the anchor of the
+ * nearest enclosing heading that has one, else the page itself. The page
+ * title heading links to the page.
+ */
+function sectionAnchorUrl(page: CrawlResult, sections: Section[], index: number): string {
+  let level = sections[index].headingLevel + 1;
+  for (let i = index; i >= 0 && level > 1; i--) {
+    const section = sections[i];
+    if (section.headingLevel === 0 || section.headingLevel >= level) continue;
+    if (section.anchor && section.heading !== page.title) return `${page.url}#${section.anchor}`;
+    level = section.headingLevel;
+  }
+  return page.url;
+}
+
 /**
  * Chunk a crawled page into AI-friendly pieces.
  */
 export function chunkPage(page: CrawlResult): DocChunk[] {
   if (!page.markdown.trim()) return [];
 
-  const slug = slugify(page.title || page.path.split("/").pop() || "unknown");
+  const slug = pageSlug(page.path);
 
-  // Split -> merge small -> split large
+  // Split -> merge small (or one chunk per question on FAQ pages) -> split large
   let sections = splitByHeadings(page.markdown);
-  sections = mergeSections(sections);
+  const questions = markQuestions(page, sections);
+  sections = questions ? groupFaqSections(questions) : mergeSections(sections);
   sections = sections.flatMap(splitLargeSection);
 
   // Build heading hierarchies
@@ -190,22 +523,38 @@ export function chunkPage(page: CrawlResult): DocChunk[] {
 
   const totalChunks = sections.length;
 
-  return sections.map((section, i) => ({
-    id: `${slug}-${String(i).padStart(2, "0")}`,
-    url: page.url,
-    path: page.path,
-    section: page.section,
-    title: page.title,
-    heading: section.heading || page.title,
-    headingLevel: section.headingLevel,
-    parentHeadings: hierarchies[i] || [page.title],
-    content: section.content,
-    tokenEstimate: estimateTokens(section.content),
-    crawledAt: page.crawledAt,
-    fetchMethod: page.fetchMethod,
-    chunkIndex: i,
-    totalChunks,
-  }));
+  return sections.map((section, i) => {
+    const anchors = section.anchors.filter(Boolean);
+    return {
+      id: `${slug}-${String(i).padStart(2, "0")}`,
+      url: page.url,
+      anchorUrl: sectionAnchorUrl(page, sections, i),
+      path: page.path,
+      section: page.section,
+      title: page.title,
+      heading: section.heading || page.title,
+      headingLevel: section.headingLevel,
+      parentHeadings: hierarchies[i] || [page.title],
+      content: section.content,
+      tokenEstimate: countTokens(section.content),
+      crawledAt: page.crawledAt,
+      fetchMethod: page.fetchMethod,
+      chunkIndex: i,
+      totalChunks,
+      ...(section.question && { kind: "faq" as const }),
+      ...(anchors.length > 0 && { anchors }),
+      ...(section.continued && { continued: true }),
+    };
+  });
+}
+
+/**
+ * A chunk's content as it reads on its page, without the heading that
+ * continuation pieces repeat.
+ */
+export function pageContent(chunk: DocChunk): string {
+  if (!chunk.continued) return chunk.content;
+  return chunk.content.replace(/^#{1,6} .*\n+/, "");
 }
 
 /**
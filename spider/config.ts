@@ -1,21 +1,158 @@
+import type { CustomRedactionRule } from "./redact.ts";
+import type { TagRule } from "./tags.ts";
+
+// Default site profile. Other sites are described in a spider.config.(json|ts)
+// file passed with --config (see spider/site.ts).
+export const SITE_NAME = "clever";
+export const SITE_TITLE = "Clever Developer Documentation";
+export const SITE_DESCRIPTION =
+  "Guides and API reference for building integrations with Clever: rostering (Secure Sync), SSO, LMS Connect and the Clever API.";
 export const BASE_URL = "https://dev.clever.com";
 
+// Path globs for pages to crawl ("*" within a path segment, "**" across them)
+export const INCLUDE_PATHS = ["/docs/**"];
+export const EXCLUDE_PATHS: string[] = [];
+
+// ReadMe docs: selectors for the main content, tried in order
+export const CONTENT_SELECTORS = [
+  '[class*="markdown-body"]',
+  '[class*="content-body"]',
+  "article",
+  ".rm-Article",
+  '[id="content"]',
+  "main",
+  ".content",
+];
+
+// Interactive elements that don't translate to docs
+export const REMOVE_SELECTORS = ["button", "style", "script", "[class*='try-it']", "[class*='playground']"];
+
+// Redactions on top of the built-in secret/PII rules (see spider/redact.ts).
+// Real district IDs in example payloads and query strings.
+export const REDACTION_RULES: CustomRedactionRule[] = [
+  {
+    name: "district-id",
+    category: "identifier",
+    pattern: '\\bdistrict(?:_id)?"?\\s*[:=]\\s*"?(?<value>[0-9a-f]{24})\\b',
+  },
+];
+
+// API version, product and audience tags for chunks (see spider/tags.ts)
+export const TAG_RULES: TagRule[] = [
+  { field: "apiVersions", tag: "v2.x", path: "v2", title: "\\bv2\\b", content: "\\bv2\\.[0-9x]\\b" },
+  { field: "apiVersions", tag: "v3.0", path: "api-30|v3-?0\\b", title: "\\bv3\\.0\\b", content: "\\bv3\\.0\\b" },
+  {
+    field: "apiVersions",
+    tag: "v3.1",
+    path: "v31|v3-1",
+    section: "\\(v3\\.1\\)",
+    title: "\\bv3\\.1\\b",
+    content: "\\bv3\\.1\\b",
+  },
+  {
+    field: "products",
+    tag: "Secure Sync",
+    path: "secure-sync|ss-design|sync-|events-",
+    section: "Secure Sync",
+    content: "\\bSecure Sync\\b",
+  },
+  { field: "products", tag: "LMS Connect", path: "lms-connect", section: "LMS Connect", content: "\\bLMS Connect\\b" },
+  { field: "products", tag: "Library", path: "library", title: "\\bLibrary\\b", content: "\\bClever Library\\b" },
+  { field: "products", tag: "District SSO", path: "district-sso", title: "District SSO", content: "\\bDistrict SSO\\b" },
+  { field: "products", tag: "SAML", path: "saml", title: "\\bSAML\\b", headings: "\\bSAML\\b" },
+  {
+    field: "audience",
+    tag: "district-integrations",
+    path: "district",
+    section: "District Rostering",
+    headings: "district (?:app|integration)s?",
+  },
+  {
+    field: "audience",
+    tag: "classroom-integrations",
+    path: "library|classroom",
+    headings: "classroom (?:app|integration)s?|\\bLibrary\\b",
+  },
+];
+export const USER_AGENT = "CleverDocSpider/1.0 (documentation indexer; contact: dev@example.com)";
+
 export const CONCURRENCY = 5;
-export const REQUEST_DELAY_MS = 300;
+
+// Per-host token bucket (slowed further if robots.txt sets a Crawl-delay)
+export const REQUESTS_PER_SECOND = 3;
+export const REQUEST_BURST = 3;
+
+// Retries for 429/5xx responses and network errors, with exponential
+// backoff (Retry-After is honored when longer, up to MAX_RETRY_AFTER_MS;
+// a request asking for a longer wait fails instead)
+export const MAX_RETRIES = 3;
+export const RETRY_BASE_DELAY_MS = 1000;
+export const MAX_RETRY_DELAY_MS = 30_000;
+export const MAX_RETRY_AFTER_MS = 300_000;
+
+// Tokenizer used for chunk sizing and token counts (see spider/tokenizer.ts)
+export const TOKENIZER = "cl100k_base";
+
 export const MAX_CHUNK_TOKENS = 1500;
 export const MIN_CHUNK_TOKENS = 100;
 
-// Pages with fewer estimated tokens than this after static fetch
+// Pages chunked one question and answer per chunk: those whose path or
+// title matches this pattern, and any page with at least MIN_FAQ_QUESTIONS
+// question headings or bold question lines
+export const FAQ_PAGE_PATTERN = "\\bfaqs?\\b|troubleshoot|edge[- ]cases";
+export const MIN_FAQ_QUESTIONS = 3;
+
+// Pages with fewer tokens than this after static fetch
 // will be re-fetched with Playwright (headless browser) to capture
 // JS-rendered content.
 export const THIN_PAGE_THRESHOLD = 200;
 
+// Pages whose SimHash fingerprints differ in at most this many of 64 bits
+// are compared shingle by shingle, and treated as the same page reached by
+// two paths when at least this share of their shingles match
+export const NEAR_DUPLICATE_MAX_DISTANCE = 16;
+export const NEAR_DUPLICATE_MIN_SIMILARITY = 0.8;
+
 export const OUTPUT_DIR = "docs";
 export const CHUNKS_DIR = "docs/chunks";
 export const MANIFEST_FILE = "docs/manifest.json";
+export const SCHEMAS_DIR = "docs/schemas";
+export const OPENAPI_DIR = "docs/openapi";
+export const EXAMPLES_DIR = "docs/examples";
+export const SNAPSHOTS_DIR = "docs/snapshots";
+export const GRAPH_FILE = "docs/graph.json";
+export const ERRORS_FILE = "docs/errors.json";
+export const NAVIGATION_FILE = "docs/navigation.json";
+export const CRAWL_REPORT_FILE = "docs/crawl-report.json";
+export const SEARCH_INDEX_FILE = "docs/search-index.json";
+
+// Embedder used for the search index (see spider/embedder.ts)
+export const EMBEDDER = "tfidf";
+
+// Persistent crawl cache (ETag/Last-Modified + content hashes) used to
+// skip refetching and re-chunking pages that haven't changed. It holds the
+// full pages, so it's kept out of git; CI restores it between runs.
+export const CACHE_FILE = "docs/crawl-cache.json";
+
+// Bump whenever chunking output changes so cached chunks are rebuilt.
+export const CACHE_VERSION = 14;
+
+// Crawl health gate: the run fails before writing to docs/ if any check fails
+export const HEALTH_MIN_PAGE_RATIO = 0.9; // vs. the previous manifest's page count
+export const HEALTH_SHRINK_PERCENT = 50; // a page "shrank" if it lost more tokens than this
+export const HEALTH_MAX_SHRUNK_PAGES_PERCENT = 10;
+export const HEALTH_MAX_BOILERPLATE_CHUNKS = 5;
+export const REQUIRED_PAGES = [
+  "/docs/getting-started",
+  "/docs/api-overview",
+  "/docs/data-model",
+  "/docs/users",
+  "/docs/events-api",
+];
 
 // All known doc page paths, organized by section.
-// The spider will also discover linked pages it finds during crawling.
+// The spider also discovers pages from sitemap.xml, the sidebar navigation
+// and in-page links, and reports live pages missing from this list.
 export const SEED_URLS: Record<string, string[]> = {
   "Getting Started": [
     "/docs/getting-started",
@@ -128,9 +265,11 @@ export const SEED_URLS: Record<string, string[]> = {
 };
 
 // Flatten all seed URLs into a list with section metadata
-export function getAllSeedUrls(): Array<{ path: string; section: string }> {
+export function getAllSeedUrls(
+  seeds: Record<string, string[]> = SEED_URLS
+): Array<{ path: string; section: string }> {
   const urls: Array<{ path: string; section: string }> = [];
-  for (const [section, paths] of Object.entries(SEED_URLS)) {
+  for (const [section, paths] of Object.entries(seeds)) {
     for (const path of paths) {
       urls.push({ path, section });
     }
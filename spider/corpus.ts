@@ -0,0 +1,87 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { CHUNKS_DIR, MANIFEST_FILE } from "./config.ts";
+import type { DocChunk } from "./chunk.ts";
+
+export interface ManifestEntry {
+  id: string;
+  file: string;
+  url: string;
+  anchorUrl: string;
+  path: string;
+  section: string;
+  title: string;
+  heading: string;
+  parentHeadings: string[];
+  tokenEstimate: number;
+  chunkIndex: number;
+  totalChunks: number;
+  kind?: DocChunk["kind"];
+  // Number of other chunks linking here
+  inboundLinks?: number;
+  // Other paths serving this page, which weren't chunked separately
+  aliases?: string[];
+  apiVersions?: string[];
+  products?: string[];
+  audience?: string[];
+}
+
+export interface Manifest {
+  generatedAt: string;
+  totalPages: number;
+  // Pages fetched by that run, without duplicates or pages kept from the
+  // cache; what the next run's health check compares against
+  fetchedPages?: number;
+  totalChunks: number;
+  totalTokenEstimate: number;
+  // Tokenizer used for every tokenEstimate
+  tokenizer: string;
+  sections: string[];
+  chunks: ManifestEntry[];
+  // Old chunk ID -> current chunk ID, for consumers holding outdated IDs
+  aliases: Record<string, string>;
+  // Duplicate page path -> the canonical page it was folded into
+  duplicateOf: Record<string, string>;
+}
+
+/**
+ * Read the published manifest, or null if there isn't a readable one.
+ */
+export function readManifest(file = MANIFEST_FILE): Manifest | null {
+  if (!existsSync(file)) return null;
+  try {
+    return JSON.parse(readFileSync(file, "utf-8")) as Manifest;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a single chunk file by ID, or null if it doesn't exist.
+ */
+export function readChunk(id: string, dir = CHUNKS_DIR): DocChunk | null {
+  const filePath = join(dir, `${id}.json`);
+  if (!existsSync(filePath)) return null;
+  return JSON.parse(readFileSync(filePath, "utf-8")) as DocChunk;
+}
+
+/**
+ * Load every chunk listed in the manifest, in manifest order. Pass a
+ * directory to load a copy of the output (e.g. a previous crawl) instead
+ * of the published docs.
+ */
+export function loadCorpus(dir?: string): { manifest: Manifest; chunks: DocChunk[] } {
+  const manifestFile = dir ? join(dir, "manifest.json") : MANIFEST_FILE;
+  const chunksDir = dir ? join(dir, "chunks") : CHUNKS_DIR;
+
+  const manifest = readManifest(manifestFile);
+  if (!manifest) {
+    throw new Error(`No manifest found at ${manifestFile}. Run the crawl first.`);
+  }
+
+  const chunks = manifest.chunks
+    .map((entry) => readChunk(entry.id, chunksDir))
+    .filter((chunk): chunk is DocChunk => chunk !== null);
+
+  return { manifest, chunks };
+}
@@ -0,0 +1,197 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { crawlAll, crawlPage, extractFromHtml, type CrawlResult } from "./crawl.ts";
+import {
+  FIXTURE_BASE_URL,
+  fixtureFetcher,
+  fixtureRenderer,
+  fixtureSite,
+  readFixture,
+} from "./__fixtures__/fixtures.ts";
+
+function extract(fixture: string, path = "/docs/fixture"): CrawlResult {
+  const result = extractFromHtml(
+    readFixture(fixture),
+    `${FIXTURE_BASE_URL}${path}`,
+    path,
+    "Fixtures",
+    "static",
+    fixtureSite()
+  );
+  return { ...result, crawledAt: "<crawledAt>" };
+}
+
+describe("extractFromHtml", () => {
+  const article = extract("readme-article.html", "/docs/oauth");
+
+  test("reads the title from the first h1", () => {
+    expect(article.title).toBe("Identity API (OAuth)");
+  });
+
+  test("prefers the meta description over og:description", () => {
+    expect(article.description).toBe(
+      "Exchange an authorization code for a bearer token and look up the logged-in user."
+    );
+  });
+
+  test("falls back to <title> and og:description", () => {
+    const page = extract("article-fallback.html");
+    expect(page.title).toBe("Paging and Limits");
+    expect(page.description).toBe("How to page through large result sets.");
+  });
+
+  test("falls back to the last path segment without a title", () => {
+    const html = "<p>No title here</p>";
+    const page = extractFromHtml(html, FIXTURE_BASE_URL, "/docs/untitled-page", "Fixtures", "static", fixtureSite());
+    expect(page.title).toBe("untitled-page");
+  });
+
+  describe("content selector fallback chain", () => {
+    test("uses .markdown-body and drops the surrounding chrome", () => {
+      expect(article.markdown).not.toContain("Log In");
+      expect(article.markdown).not.toContain("Sidebar only page");
+      expect(article.markdown).not.toContain("Identity API (OAuth)");
+    });
+
+    test("uses <article> before <main>", () => {
+      const page = extract("article-fallback.html");
+      expect(page.markdown).toContain("## Paging");
+      expect(page.markdown).not.toContain("The article selector wins over main.");
+    });
+
+    test("falls back to the body without header, nav, sidebar and footer", () => {
+      const page = extract("body-fallback.html");
+      expect(page.markdown).toContain("# Events API");
+      expect(page.markdown).not.toMatch(/Header|Navigation|Sidebar|Copyright/);
+    });
+  });
+
+  test("removes buttons, try-it widgets and scripts", () => {
+    expect(article.markdown).not.toMatch(/Try It|playground|analytics/);
+  });
+
+  test("keeps code block languages from class and data-lang", () => {
+    expect(article.markdown).toContain("```bash\ncurl -X POST");
+    expect(article.markdown).toContain('```json\n{\n  "access_token"');
+    expect(article.markdown).toContain("```\nplain block without a language\n```");
+  });
+
+  test("discovers /docs/ links once each, without anchors or query strings", () => {
+    expect(article.discoveredPaths).toEqual([
+      "/docs/getting-started",
+      "/docs/sidebar-only-page",
+      "/docs/oauth-implementation",
+      "/docs/users",
+      "/docs/footer-link",
+    ]);
+  });
+
+  test("matches the snapshot", () => {
+    expect(article).toMatchSnapshot();
+    expect(extract("article-fallback.html")).toMatchSnapshot();
+    expect(extract("body-fallback.html")).toMatchSnapshot();
+  });
+});
+
+describe("crawlPage", () => {
+  const pages = {
+    "/docs/oauth": readFixture("readme-article.html"),
+    "/docs/events-testing": readFixture("thin.html"),
+  };
+  const options = (rendered: Record<string, string> = {}) => ({
+    site: fixtureSite(),
+    fetcher: fixtureFetcher(pages),
+    renderer: fixtureRenderer(rendered),
+  });
+
+  test("returns the static result for a full page", async () => {
+    const opts = options();
+    const result = await crawlPage("/docs/oauth", "Fixtures", opts);
+    expect(result.fetchMethod).toBe("static");
+    expect(result.etag).toBeDefined();
+    expect(opts.renderer.rendered).toEqual([]);
+  });
+
+  test("renders thin pages and keeps the static validators", async () => {
+    const opts = options({ "/docs/events-testing": readFixture("thin-rendered.html") });
+    const result = await crawlPage("/docs/events-testing", "Fixtures", opts);
+    expect(opts.renderer.rendered).toEqual([`${FIXTURE_BASE_URL}/docs/events-testing`]);
+    expect(result.fetchMethod).toBe("playwright");
+    expect(result.title).toBe("Events Testing");
+    expect(result.etag).toBe(`"${pages["/docs/events-testing"].length}"`);
+  });
+
+  test("keeps the static result when rendering fails", async () => {
+    const result = await crawlPage("/docs/events-testing", "Fixtures", options());
+    expect(result.fetchMethod).toBe("static");
+    expect(result.markdown).toBe("Loading...");
+  });
+
+  test("returns the cached page on 304 Not Modified", async () => {
+    const cachedPage = extract("article-fallback.html", "/docs/paging");
+    const fetcher = async () => new Response(null, { status: 304 });
+    const result = await crawlPage("/docs/paging", "Moved", { site: fixtureSite(), fetcher }, {
+      contentHash: "hash",
+      chunkIds: [],
+      page: { ...cachedPage, etag: '"v1"' },
+    });
+    expect(result).toEqual({ ...cachedPage, etag: '"v1"', section: "Moved" });
+  });
+
+  test("throws when the fetch fails", async () => {
+    await expect(crawlPage("/docs/missing", "Fixtures", options())).rejects.toThrow("HTTP 404");
+  });
+});
+
+describe("crawlAll against a local fixture server", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  const routes: Record<string, string> = {
+    "/robots.txt": "User-agent: *\nDisallow: /docs/sidebar-only-page\n",
+    "/docs/oauth": readFixture("readme-article.html"),
+    "/docs/getting-started": readFixture("article-fallback.html"),
+    "/docs/oauth-implementation": readFixture("body-fallback.html"),
+    "/docs/users": readFixture("article-fallback.html"),
+    "/docs/events-testing": readFixture("thin.html"),
+  };
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch(req) {
+        const body = routes[new URL(req.url).pathname];
+        return body === undefined ? new Response("Not found", { status: 404 }) : new Response(body);
+      },
+    });
+  });
+
+  afterAll(() => server.stop(true));
+
+  test("follows discovered links, skips disallowed pages and reports failures", async () => {
+    const baseUrl = server.url.origin;
+    const renderer = fixtureRenderer({ "/docs/events-testing": readFixture("thin-rendered.html") });
+    const outcome = await crawlAll([{ path: "/docs/oauth", section: "Fixtures" }], undefined, {
+      site: fixtureSite(baseUrl),
+      renderer,
+    });
+
+    expect(outcome.results.map((r) => r.path).sort()).toEqual([
+      "/docs/events-testing",
+      "/docs/getting-started",
+      "/docs/oauth",
+      "/docs/oauth-implementation",
+      "/docs/users",
+    ]);
+    expect(outcome.results.find((r) => r.path === "/docs/events-testing")?.fetchMethod).toBe("playwright");
+    expect(outcome.results.find((r) => r.path === "/docs/users")?.section).toBe("Discovered");
+    expect(outcome.skipped).toEqual(["/docs/sidebar-only-page"]);
+    expect(outcome.failures).toEqual([
+      {
+        path: "/docs/footer-link",
+        url: `${baseUrl}/docs/footer-link`,
+        section: "Discovered",
+        status: 404,
+        error: "HTTP 404",
+        attempts: 1,
+      },
+    ]);
+  });
+});
@@ -2,11 +2,16 @@ import * as cheerio from "cheerio";
 import TurndownService from "turndown";
 import { chromium, type Browser } from "playwright";
 import {
-  BASE_URL,
+  USER_AGENT,
   CONCURRENCY,
-  REQUEST_DELAY_MS,
   THIN_PAGE_THRESHOLD,
 } from "./config.ts";
+import { FetchError, politeFetch, throttle } from "./fetch.ts";
+import type { CacheEntry, CrawlCache } from "./cache.ts";
+import { countTokens } from "./tokenizer.ts";
+import { extractSchemaTables, type SchemaTable } from "./schema.ts";
+import { findOpenApiSources, isOpenApiDocument, type OpenApiSource } from "./openapi.ts";
+import { DEFAULT_SITE, siteUrl, toSitePath, type SiteConfig } from "./site.ts";
 
 const turndown = new TurndownService({
   headingStyle: "atx",
@@ -30,6 +35,44 @@ turndown.addRule("fencedCodeBlock", {
   },
 });
 
+// Accordion titles become bold lines above their content, which FAQ
+// chunking reads as questions (see questionLine in spider/chunk.ts)
+turndown.addRule("accordionSummary", {
+  filter: "summary",
+  replacement: (content) => (content.trim() ? `\n\n**${content.trim()}**\n\n` : ""),
+});
+
+/**
+ * Render a table cell's HTML as single-line markdown.
+ */
+function tableCell(html: string): string {
+  return turndown
+    .turndown(html)
+    .trim()
+    .replace(/\n+/g, "<br>")
+    .replace(/\|/g, "\\|");
+}
+
+// Render tables as GFM pipe tables instead of one line per cell
+turndown.addRule("table", {
+  filter: "table",
+  replacement: (content, node) => {
+    const rows = Array.from((node as HTMLElement).querySelectorAll("tr")).map((row) =>
+      Array.from(row.children)
+        .filter((cell) => cell.nodeName === "TH" || cell.nodeName === "TD")
+        .map((cell) => tableCell(cell.innerHTML))
+    );
+    if (rows.length === 0) return content;
+
+    const width = Math.max(...rows.map((r) => r.length));
+    const line = (cells: string[]) =>
+      `| ${[...cells, ...Array(width - cells.length).fill("")].join(" | ")} |`;
+    const [header, ...body] = rows;
+
+    return `\n\n${[line(header), line(Array(width).fill("---")), ...body.map(line)].join("\n")}\n\n`;
+  },
+});
+
 export interface CrawlResult {
   url: string;
   path: string;
@@ -38,27 +81,39 @@ export interface CrawlResult {
   description: string;
   markdown: string;
   discoveredPaths: string[];
+  schemas: SchemaTable[];
+  openapi: OpenApiSource[];
   crawledAt: string;
   fetchMethod: "static" | "playwright";
-}
-
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+  etag?: string;
+  lastModified?: string;
+  // Set when the page names another path as its rel="canonical"
+  canonicalPath?: string;
+  // Set when fetching the page redirected to another path on the site
+  redirectedTo?: string;
 }
 
 /**
- * Extract content from HTML string using cheerio + turndown.
+ * Extract content from HTML string using cheerio + turndown, with the
+ * site's content and removal selectors.
  * Shared between static and Playwright paths.
  */
-function extractFromHtml(
+export function extractFromHtml(
   html: string,
   url: string,
   path: string,
   section: string,
-  fetchMethod: "static" | "playwright"
+  fetchMethod: "static" | "playwright",
+  site: SiteConfig = DEFAULT_SITE
 ): CrawlResult {
   const $ = cheerio.load(html);
 
+  // API definitions live in page data and links that get stripped below
+  const openapi = findOpenApiSources($, url);
+
+  // Where the page says its content really lives
+  const canonicalPath = toSitePath(site, $('link[rel="canonical"]').attr("href"), url);
+
   // Extract page title
   const title =
     $("h1").first().text().trim() ||
@@ -72,19 +127,9 @@ function extractFromHtml(
     $('meta[property="og:description"]').attr("content") ??
     "";
 
-  // ReadMe docs: try several selectors for the main content
-  const contentSelectors = [
-    '[class*="markdown-body"]',
-    '[class*="content-body"]',
-    "article",
-    ".rm-Article",
-    '[id="content"]',
-    "main",
-    ".content",
-  ];
-
+  // Try the site's selectors for the main content, in order
   let contentHtml = "";
-  for (const selector of contentSelectors) {
+  for (const selector of site.contentSelectors) {
     const el = $(selector).first();
     if (el.length && el.html()) {
       contentHtml = el.html()!;
@@ -102,28 +147,22 @@ function extractFromHtml(
 
   // Remove interactive elements that don't translate to docs
   const $content = cheerio.load(contentHtml);
-  $content("button, [class*='try-it'], [class*='playground']").remove();
+  $content(site.removeSelectors.join(", ")).remove();
 
-  let markdown = turndown.turndown($content.html() ?? "").trim();
+  // Field definitions from data-model tables, before they become markdown
+  const schemas = extractSchemaTables($content, $content.text());
 
-  // Sanitize Base64 auth strings to avoid secret-detection false positives.
-  // Clever's docs include example creds like "Basic YW5Wc..." which trigger
-  // tools like GitGuardian. Replace with a descriptive placeholder.
-  markdown = markdown.replace(
-    /Basic [A-Za-z0-9+/=]{20,}/g,
-    "Basic <BASE64_ENCODED_CLIENT_ID_AND_SECRET>"
-  );
+  // Secrets and PII are redacted later, in spider/redact.ts
+  const markdown = turndown.turndown($content.html() ?? "").trim();
 
-  // Discover other /docs/ links on this page
+  // Discover other in-scope pages linked from this one
   const discoveredPaths: string[] = [];
   $("a[href]").each((_, el) => {
     const href = $(el).attr("href");
-    if (!href) return;
-    if (href.startsWith("/docs/") && !href.includes("#")) {
-      const clean = href.split("?")[0];
-      if (!discoveredPaths.includes(clean)) {
-        discoveredPaths.push(clean);
-      }
+    if (!href || href.includes("#")) return;
+    const clean = toSitePath(site, href, url);
+    if (clean && !discoveredPaths.includes(clean)) {
+      discoveredPaths.push(clean);
     }
   });
 
@@ -135,105 +174,225 @@ function extractFromHtml(
     description,
     markdown,
     discoveredPaths,
+    schemas,
+    openapi,
     crawledAt: new Date().toISOString(),
     fetchMethod,
+    ...(canonicalPath && canonicalPath !== path && { canonicalPath }),
+  };
+}
+
+export interface CrawlFailure {
+  path: string;
+  url: string;
+  section: string;
+  status: number | null;
+  error: string;
+  attempts: number;
+}
+
+export interface CrawlOutcome {
+  results: CrawlResult[];
+  failures: CrawlFailure[];
+  // Pages robots.txt doesn't allow us to crawl
+  skipped: string[];
+}
+
+/**
+ * Fetches a page over HTTP. Like politeFetch, resolves with a 2xx or 304
+ * response and throws (preferably a FetchError) otherwise.
+ */
+export type Fetcher = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Renders a page with JavaScript and returns the resulting HTML, for pages
+ * that come back thin from the static fetch.
+ */
+export interface Renderer {
+  render(url: string): Promise<string>;
+  close(): Promise<void>;
+}
+
+export interface CrawlOptions {
+  site?: SiteConfig;
+  fetcher?: Fetcher;
+  renderer?: Renderer;
+}
+
+/**
+ * Headless Chromium renderer. The browser is launched on first use, so
+ * crawls without thin pages never start it.
+ */
+export function createPlaywrightRenderer(): Renderer {
+  let browser: Promise<Browser> | null = null;
+
+  return {
+    async render(url) {
+      browser ??= chromium.launch({ headless: true }).then((b) => {
+        console.log("  Browser launched for JS-rendered pages.");
+        return b;
+      });
+      const page = await (await browser).newPage();
+
+      try {
+        await throttle(url);
+        await page.goto(url, { waitUntil: "networkidle", timeout: 30_000 });
+        // Extra wait for any lazy-loaded content
+        await page.waitForTimeout(2000);
+        return await page.content();
+      } finally {
+        await page.close();
+      }
+    },
+    async close() {
+      if (browser) await (await browser).close();
+    },
   };
 }
 
 /**
  * Fast static fetch of a page (no JS rendering).
+ * When a cached copy exists, sends a conditional request and returns the
+ * cached result unchanged on 304 Not Modified. Throws on failure.
  */
 async function fetchStatic(
+  fetcher: Fetcher,
+  site: SiteConfig,
+  url: string,
   path: string,
-  section: string
-): Promise<CrawlResult | null> {
-  const url = `${BASE_URL}${path}`;
+  section: string,
+  cached?: CacheEntry
+): Promise<{ result: CrawlResult; notModified: boolean }> {
+  const headers: Record<string, string> = {
+    "User-Agent": USER_AGENT,
+    Accept: "text/html",
+  };
+  if (cached?.page.etag) headers["If-None-Match"] = cached.page.etag;
+  if (cached?.page.lastModified) headers["If-Modified-Since"] = cached.page.lastModified;
 
-  const res = await fetch(url, {
-    headers: {
-      "User-Agent":
-        "CleverDocSpider/1.0 (documentation indexer; contact: dev@example.com)",
-      Accept: "text/html",
-    },
-  });
+  const res = await fetcher(url, { headers });
 
-  if (!res.ok) {
-    console.error(`  [${res.status}] ${url}`);
-    return null;
+  if (res.status === 304) {
+    if (!cached) throw new FetchError(url, 304, 1, "Unexpected 304 without a cached copy");
+    return { result: { ...cached.page, section }, notModified: true };
   }
 
   const html = await res.text();
-  return extractFromHtml(html, url, path, section, "static");
+  const result = extractFromHtml(html, url, path, section, "static", site);
+  result.etag = res.headers.get("etag") ?? undefined;
+  result.lastModified = res.headers.get("last-modified") ?? undefined;
+  const finalPath = res.url ? toSitePath(site, res.url) : null;
+  if (finalPath && finalPath !== path) result.redirectedTo = finalPath;
+  return { result, notModified: false };
 }
 
 /**
- * Playwright-based fetch that waits for JS to render content.
+ * Render a page with JavaScript and extract it.
  */
-async function fetchWithPlaywright(
-  browser: Browser,
+async function fetchRendered(
+  renderer: Renderer,
+  site: SiteConfig,
+  url: string,
   path: string,
   section: string
 ): Promise<CrawlResult | null> {
-  const url = `${BASE_URL}${path}`;
-  const page = await browser.newPage();
-
   try {
-    await page.goto(url, { waitUntil: "networkidle", timeout: 30_000 });
-    // Extra wait for any lazy-loaded content
-    await page.waitForTimeout(2000);
-
-    const html = await page.content();
-    return extractFromHtml(html, url, path, section, "playwright");
+    const html = await renderer.render(url);
+    return extractFromHtml(html, url, path, section, "playwright", site);
   } catch (err) {
     console.error(`  [PW ERROR] ${url}: ${err}`);
     return null;
-  } finally {
-    await page.close();
   }
 }
 
 /**
- * Crawl a single page: try static first, fall back to Playwright if thin.
+ * Download linked API definitions. Anything that fails to download or
+ * isn't an OpenAPI/Swagger JSON document is dropped.
  */
-async function crawlPage(
-  path: string,
-  section: string,
-  browser: Browser
-): Promise<CrawlResult | null> {
-  try {
-    const result = await fetchStatic(path, section);
-    if (!result) return null;
-
-    const tokens = estimateTokens(result.markdown);
-    if (tokens >= THIN_PAGE_THRESHOLD) {
-      return result;
+async function resolveOpenApi(fetcher: Fetcher, sources: OpenApiSource[]): Promise<OpenApiSource[]> {
+  const resolved: OpenApiSource[] = [];
+  for (const source of sources) {
+    if (source.spec || !source.url) {
+      resolved.push(source);
+      continue;
     }
 
-    // Thin page - try Playwright
-    console.log(`    -> thin (${tokens} tokens), retrying with Playwright...`);
-    const pwResult = await fetchWithPlaywright(browser, path, section);
-    if (pwResult && estimateTokens(pwResult.markdown) > tokens) {
-      return pwResult;
+    try {
+      const res = await fetcher(source.url, { headers: { "User-Agent": USER_AGENT, Accept: "application/json" } });
+      const spec = await res.json();
+      if (isOpenApiDocument(spec)) {
+        console.log(`    -> API definition: ${source.url}`);
+        resolved.push({ url: source.url, spec });
+      }
+    } catch (err) {
+      console.error(`  [OPENAPI ERROR] ${source.url}: ${err instanceof Error ? err.message : err}`);
     }
+  }
+  return resolved;
+}
+
+/**
+ * Crawl a single page: try static first, fall back to the renderer (when
+ * one is given) if thin. Throws if the static fetch fails.
+ */
+export async function crawlPage(
+  path: string,
+  section: string,
+  options: CrawlOptions = {},
+  cached?: CacheEntry
+): Promise<CrawlResult> {
+  const site = options.site ?? DEFAULT_SITE;
+  const fetcher = options.fetcher ?? politeFetch;
+  const url = siteUrl(site, path);
+  const { result, notModified } = await fetchStatic(fetcher, site, url, path, section, cached);
+  if (notModified) {
+    console.log(`    -> not modified`);
+    return result;
+  }
+  result.openapi = await resolveOpenApi(fetcher, result.openapi);
 
-    // Playwright didn't help, return the static result
+  const tokens = countTokens(result.markdown);
+  if (tokens >= THIN_PAGE_THRESHOLD || !options.renderer) {
     return result;
-  } catch (err) {
-    console.error(`  [ERROR] ${BASE_URL}${path}: ${err}`);
-    return null;
   }
+
+  // Thin page - try rendering it
+  console.log(`    -> thin (${tokens} tokens), retrying with Playwright...`);
+  const pwResult = await fetchRendered(options.renderer, site, url, path, section);
+  if (pwResult && countTokens(pwResult.markdown) > tokens) {
+    // Keep the static validators so the next run can still revalidate
+    return {
+      ...pwResult,
+      openapi: pwResult.openapi.length > 0 ? await resolveOpenApi(fetcher, pwResult.openapi) : result.openapi,
+      etag: result.etag,
+      lastModified: result.lastModified,
+      ...(result.redirectedTo && { redirectedTo: result.redirectedTo }),
+    };
+  }
+
+  // Rendering didn't help, return the static result
+  return result;
 }
 
 /**
  * Crawl all pages with concurrency control and Playwright fallback.
+ * Pages present in the cache are revalidated with conditional requests.
+ * Failed pages are reported rather than silently dropped.
+ * Without a renderer in `options`, a Playwright one is created and closed
+ * when the crawl finishes.
  */
 export async function crawlAll(
-  pages: Array<{ path: string; section: string }>
-): Promise<CrawlResult[]> {
-  const browser = await chromium.launch({ headless: true });
-  console.log("  Browser launched for JS-rendered pages.\n");
+  pages: Array<{ path: string; section: string }>,
+  cache?: CrawlCache,
+  options: CrawlOptions = {}
+): Promise<CrawlOutcome> {
+  const site = options.site ?? DEFAULT_SITE;
+  const renderer = options.renderer ?? createPlaywrightRenderer();
+  const pageOptions = { ...options, renderer };
 
   const results: CrawlResult[] = [];
+  const failures: CrawlFailure[] = [];
+  const skipped: string[] = [];
   const visited = new Set<string>();
   const queue = [...pages];
 
@@ -243,21 +402,44 @@ export async function crawlAll(
       if (!item || visited.has(item.path)) continue;
       visited.add(item.path);
 
-      await new Promise((r) => setTimeout(r, REQUEST_DELAY_MS));
-
       console.log(`  Crawling: ${item.path}`);
-      const result = await crawlPage(item.path, item.section, browser);
-
-      if (result) {
-        results.push(result);
-
-        for (const discovered of result.discoveredPaths) {
-          if (
-            !visited.has(discovered) &&
-            !queue.some((q) => q.path === discovered)
-          ) {
-            queue.push({ path: discovered, section: "Discovered" });
-          }
+      let result: CrawlResult;
+      try {
+        result = await crawlPage(
+          item.path,
+          item.section,
+          pageOptions,
+          cache?.pages[item.path]
+        );
+      } catch (err) {
+        const url = siteUrl(site, item.path);
+        if (err instanceof FetchError && err.disallowed) {
+          console.log(`    -> skipped (disallowed by robots.txt)`);
+          skipped.push(item.path);
+          continue;
+        }
+
+        const status = err instanceof FetchError ? err.status : null;
+        console.error(`  [${status ?? "ERROR"}] ${url}: ${err instanceof Error ? err.message : err}`);
+        failures.push({
+          path: item.path,
+          url,
+          section: item.section,
+          status,
+          error: err instanceof Error ? err.message : String(err),
+          attempts: err instanceof FetchError ? err.attempts : 1,
+        });
+        continue;
+      }
+
+      results.push(result);
+
+      for (const discovered of result.discoveredPaths) {
+        if (
+          !visited.has(discovered) &&
+          !queue.some((q) => q.path === discovered)
+        ) {
+          queue.push({ path: discovered, section: "Discovered" });
         }
       }
     }
@@ -269,7 +451,9 @@ export async function crawlAll(
   }
   await Promise.all(workers);
 
-  await browser.close();
+  if (!options.renderer) {
+    await renderer.close();
+  }
 
   // Report on fetch methods
   const pwCount = results.filter((r) => r.fetchMethod === "playwright").length;
@@ -279,5 +463,5 @@ export async function crawlAll(
     );
   }
 
-  return results;
+  return { results, failures, skipped };
 }
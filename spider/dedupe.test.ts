@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import { crawlPage, extractFromHtml, type CrawlResult } from "./crawl.ts";
+import { findDuplicatePages, hammingDistance, jaccard, shingles, simhash } from "./dedupe.ts";
+import { FIXTURE_BASE_URL, fixtureFetcher, fixtureSite, readFixture } from "./__fixtures__/fixtures.ts";
+
+function page(path: string, html: string): CrawlResult {
+  return extractFromHtml(html, `${FIXTURE_BASE_URL}${path}`, path, "Fixtures", "static", fixtureSite());
+}
+
+const rendered = readFixture("thin-rendered.html");
+// The same article with a sentence reworded, as served under an old path
+const reworded = rendered.replace(/<p>([^<]{40,}?)\./, "<p>$1, as described below.");
+
+describe("fingerprints", () => {
+  test("near-identical pages share most shingles and a close SimHash", () => {
+    const a = shingles(page("/docs/a", rendered).markdown);
+    const b = shingles(page("/docs/b", reworded).markdown);
+    expect(jaccard(a, b)).toBeGreaterThan(0.9);
+    expect(hammingDistance(simhash(a), simhash(b))).toBeLessThanOrEqual(16);
+  });
+
+  test("ignores pages too short to compare", () => {
+    expect(shingles("Just a few words.").size).toBe(0);
+  });
+});
+
+describe("findDuplicatePages", () => {
+  test("folds near-duplicates into the most complete copy", () => {
+    const pages = [
+      page("/docs/events-testing-old", reworded),
+      page("/docs/events-testing", rendered),
+      page("/docs/oauth", readFixture("readme-article.html")),
+    ];
+    const [duplicate] = findDuplicatePages(pages);
+    expect(findDuplicatePages(pages)).toHaveLength(1);
+    expect(duplicate.reason).toBe("near-duplicate");
+    expect(duplicate.similarity).toBeGreaterThan(0.9);
+    // The reworded copy is longer, so it's the one kept
+    expect(duplicate.path).toBe("/docs/events-testing");
+    expect(duplicate.duplicateOf).toBe("/docs/events-testing-old");
+  });
+
+  test("honors rel=canonical and follows chains to the final page", () => {
+    const html = (canonical: string) =>
+      readFixture("readme-article.html").replace("<head>", `<head><link rel="canonical" href="${canonical}">`);
+    const pages = [
+      page("/docs/oauth-v1", html("/docs/oauth-v2")),
+      page("/docs/oauth-v2", html(`${FIXTURE_BASE_URL}/docs/oauth`)),
+      page("/docs/oauth", html("/docs/oauth")),
+    ];
+    expect(pages[2].canonicalPath).toBeUndefined();
+    expect(findDuplicatePages(pages)).toEqual([
+      { path: "/docs/oauth-v1", duplicateOf: "/docs/oauth", reason: "canonical", similarity: null },
+      { path: "/docs/oauth-v2", duplicateOf: "/docs/oauth", reason: "canonical", similarity: null },
+    ]);
+  });
+
+  test("ignores canonical pages that weren't crawled and breaks cycles", () => {
+    const a = { ...page("/docs/a", readFixture("readme-article.html")), canonicalPath: "/docs/b" };
+    const b = { ...page("/docs/b", readFixture("readme-article.html")), canonicalPath: "/docs/a" };
+    const c = { ...page("/docs/c", readFixture("thin-rendered.html")), canonicalPath: "/docs/elsewhere" };
+    expect(findDuplicatePages([a, b, c]).map((d) => [d.path, d.duplicateOf])).toEqual([["/docs/b", "/docs/a"]]);
+  });
+});
+
+describe("crawlPage", () => {
+  test("records redirects to another page on the site", async () => {
+    const fetcher = async (url: string, init: RequestInit) => {
+      const res = await fixtureFetcher({ "/docs/student-contacts": rendered })(url, init);
+      Object.defineProperty(res, "url", { value: `${FIXTURE_BASE_URL}/docs/contacts-guardians` });
+      return res;
+    };
+    const result = await crawlPage("/docs/student-contacts", "Fixtures", { site: fixtureSite(), fetcher });
+    expect(result.redirectedTo).toBe("/docs/contacts-guardians");
+  });
+});
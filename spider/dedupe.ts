@@ -0,0 +1,172 @@
+import { createHash } from "crypto";
+import { NEAR_DUPLICATE_MAX_DISTANCE, NEAR_DUPLICATE_MIN_SIMILARITY } from "./config.ts";
+import type { CrawlResult } from "./crawl.ts";
+
+export interface DuplicatePage {
+  path: string;
+  duplicateOf: string;
+  reason: "canonical" | "redirect" | "near-duplicate";
+  // Share of shingles in common (0..1); null for declared duplicates
+  similarity: number | null;
+}
+
+// Words per shingle
+const SHINGLE_SIZE = 4;
+
+// Below this many words a fingerprint says more about the template than
+// the page, so short pages are never near-duplicates
+const MIN_WORDS = 50;
+
+/**
+ * Word shingles of a page's markdown, ignoring link targets, case and
+ * punctuation. Empty for pages too short to compare.
+ */
+export function shingles(markdown: string): Set<string> {
+  const words = markdown
+    .replace(/\]\([^)]*\)/g, "]")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+  const result = new Set<string>();
+  if (words.length < MIN_WORDS) return result;
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  return result;
+}
+
+/**
+ * 64-bit SimHash over a page's shingles. Cheap to compare, so it picks the
+ * pairs worth comparing shingle by shingle.
+ */
+export function simhash(pageShingles: Set<string>): bigint {
+  const weights = new Array<number>(64).fill(0);
+  for (const shingle of pageShingles) {
+    const digest = createHash("md5").update(shingle).digest();
+    const high = digest.readUInt32BE(0);
+    const low = digest.readUInt32BE(4);
+    for (let bit = 0; bit < 32; bit++) {
+      weights[bit] += (low >>> bit) & 1 ? 1 : -1;
+      weights[bit + 32] += (high >>> bit) & 1 ? 1 : -1;
+    }
+  }
+  return weights.reduce((hash, weight, bit) => (weight > 0 ? hash | (1n << BigInt(bit)) : hash), 0n);
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const shingle of a) {
+    if (b.has(shingle)) shared++;
+  }
+  return shared / (a.size + b.size - shared || 1);
+}
+
+export function hammingDistance(a: bigint, b: bigint): number {
+  let diff = a ^ b;
+  let count = 0;
+  while (diff) {
+    diff &= diff - 1n;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * The copy to keep from a group of near-duplicates: the most complete one,
+ * then the shortest path.
+ */
+function pickCanonical(group: CrawlResult[]): CrawlResult {
+  return [...group].sort(
+    (a, b) => b.markdown.length - a.markdown.length || a.path.length - b.path.length || a.path.localeCompare(b.path)
+  )[0];
+}
+
+/**
+ * Find pages that are copies of another crawled page. Pages that declare
+ * their canonical page (rel="canonical" or a redirect) are folded into it;
+ * the rest are compared by shingle overlap, for pairs whose SimHash is
+ * close enough. Chains resolve to the final page.
+ */
+export function findDuplicatePages(
+  pages: CrawlResult[],
+  maxDistance = NEAR_DUPLICATE_MAX_DISTANCE,
+  minSimilarity = NEAR_DUPLICATE_MIN_SIMILARITY
+): DuplicatePage[] {
+  const byPath = new Map(pages.map((p) => [p.path, p]));
+  const duplicates = new Map<string, DuplicatePage>();
+
+  for (const page of pages) {
+    const target = page.redirectedTo ?? page.canonicalPath;
+    if (target && target !== page.path && byPath.has(target)) {
+      duplicates.set(page.path, {
+        path: page.path,
+        duplicateOf: target,
+        reason: page.redirectedTo ? "redirect" : "canonical",
+        similarity: null,
+      });
+    }
+  }
+
+  // Break cycles (a -> b -> a) by keeping the page the walk started from
+  for (const path of [...duplicates.keys()]) {
+    const seen = new Set<string>();
+    let current = path;
+    while (duplicates.has(current)) {
+      if (seen.has(current)) {
+        duplicates.delete(current);
+        break;
+      }
+      seen.add(current);
+      current = duplicates.get(current)!.duplicateOf;
+    }
+  }
+
+  // Group the remaining pages by shingle overlap
+  const candidates = pages
+    .filter((p) => !duplicates.has(p.path))
+    .map((page) => ({ page, shingles: shingles(page.markdown) }))
+    .filter((c) => c.shingles.size > 0)
+    .map((c) => ({ ...c, hash: simhash(c.shingles) }));
+  const group = candidates.map((_, i) => i);
+  const find = (i: number): number => (group[i] === i ? i : (group[i] = find(group[i])));
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const [a, b] = [candidates[i], candidates[j]];
+      if (hammingDistance(a.hash, b.hash) <= maxDistance && jaccard(a.shingles, b.shingles) >= minSimilarity) {
+        group[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, typeof candidates>();
+  candidates.forEach((candidate, i) => {
+    const members = groups.get(find(i)) ?? [];
+    members.push(candidate);
+    groups.set(find(i), members);
+  });
+  for (const members of groups.values()) {
+    if (members.length < 2) continue;
+    const canonical = pickCanonical(members.map((m) => m.page));
+    const canonicalShingles = members.find((m) => m.page === canonical)!.shingles;
+    for (const member of members) {
+      if (member.page === canonical) continue;
+      duplicates.set(member.page.path, {
+        path: member.page.path,
+        duplicateOf: canonical.path,
+        reason: "near-duplicate",
+        similarity: Math.round(jaccard(member.shingles, canonicalShingles) * 100) / 100,
+      });
+    }
+  }
+
+  // Point everything at the end of its chain
+  for (const duplicate of duplicates.values()) {
+    while (duplicates.has(duplicate.duplicateOf)) {
+      duplicate.duplicateOf = duplicates.get(duplicate.duplicateOf)!.duplicateOf;
+    }
+  }
+
+  return [...duplicates.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
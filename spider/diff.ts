@@ -0,0 +1,277 @@
+import { writeFileSync } from "fs";
+import { loadCorpus } from "./corpus.ts";
+import { pageContent, type DocChunk } from "./chunk.ts";
+
+interface Page {
+  path: string;
+  title: string;
+  url: string;
+  content: string;
+  tokens: number;
+}
+
+export interface ParagraphChange {
+  before: string | null;
+  after: string | null;
+}
+
+export interface PageChange {
+  path: string;
+  title: string;
+  url: string;
+  status: "added" | "removed" | "changed";
+  headingsAdded: string[];
+  headingsRemoved: string[];
+  paragraphs: ParagraphChange[];
+  tokensBefore: number;
+  tokensAfter: number;
+  tokenDelta: number;
+}
+
+export interface ChangeReport {
+  from: string;
+  to: string;
+  pagesAdded: number;
+  pagesRemoved: number;
+  pagesChanged: number;
+  tokenDelta: number;
+  // Changed or added paragraphs that mention deprecations
+  deprecations: Array<{ path: string; text: string }>;
+  pages: PageChange[];
+}
+
+const DEPRECATION_PATTERN = /deprecat|sunset|end[- ]of[- ]life|no longer (?:be )?supported|will be removed/i;
+
+/**
+ * Reassemble pages from their chunks, keyed by path. Endpoint chunks go
+ * after the prose of the page they're cited against.
+ */
+function toPages(chunks: DocChunk[]): Map<string, Page> {
+  const byPath = new Map<string, DocChunk[]>();
+  for (const chunk of chunks) {
+    const list = byPath.get(chunk.path) ?? [];
+    list.push(chunk);
+    byPath.set(chunk.path, list);
+  }
+
+  const pages = new Map<string, Page>();
+  for (const [path, list] of byPath) {
+    const isEndpoint = (chunk: DocChunk) => Number(chunk.kind === "endpoint");
+    list.sort((a, b) => isEndpoint(a) - isEndpoint(b) || a.chunkIndex - b.chunkIndex || a.id.localeCompare(b.id));
+    pages.set(path, {
+      path,
+      title: list[0].title,
+      url: list[0].url,
+      content: list.map(pageContent).join("\n\n"),
+      tokens: list.reduce((sum, c) => sum + c.tokenEstimate, 0),
+    });
+  }
+  return pages;
+}
+
+function headingsOf(content: string): string[] {
+  return [...content.matchAll(/^#{1,6}\s+(.+)$/gm)].map((m) => m[1].trim());
+}
+
+function paragraphsOf(content: string): string[] {
+  return content
+    .split(/\n\n+/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Paragraph-level diff (LCS). Adjacent removals and additions are paired
+ * up as before/after edits; the rest are pure removals or additions.
+ */
+export function diffParagraphs(before: string[], after: string[]): ParagraphChange[] {
+  const n = before.length;
+  const m = after.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: ParagraphChange[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    const pairs = Math.max(removed.length, added.length);
+    for (let k = 0; k < pairs; k++) {
+      changes.push({ before: removed[k] ?? null, after: added[k] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[i] === after[j]) {
+      flush();
+      i++;
+      j++;
+    } else if (j < m && (i === n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(after[j++]);
+    } else {
+      removed.push(before[i++]);
+    }
+  }
+  flush();
+
+  return changes;
+}
+
+/**
+ * Compare two crawls chunk-by-chunk, reassembled into pages.
+ */
+export function diffCorpora(
+  before: { generatedAt: string; chunks: DocChunk[] },
+  after: { generatedAt: string; chunks: DocChunk[] }
+): ChangeReport {
+  const oldPages = toPages(before.chunks);
+  const newPages = toPages(after.chunks);
+  const paths = [...new Set([...oldPages.keys(), ...newPages.keys()])].sort();
+  const pages: PageChange[] = [];
+
+  for (const path of paths) {
+    const oldPage = oldPages.get(path);
+    const newPage = newPages.get(path);
+    if (oldPage && newPage && oldPage.content === newPage.content) continue;
+
+    const page = (newPage ?? oldPage)!;
+    const oldHeadings = headingsOf(oldPage?.content ?? "");
+    const newHeadings = headingsOf(newPage?.content ?? "");
+    const tokensBefore = oldPage?.tokens ?? 0;
+    const tokensAfter = newPage?.tokens ?? 0;
+
+    pages.push({
+      path,
+      title: page.title,
+      url: page.url,
+      status: !oldPage ? "added" : !newPage ? "removed" : "changed",
+      headingsAdded: newHeadings.filter((h) => !oldHeadings.includes(h)),
+      headingsRemoved: oldHeadings.filter((h) => !newHeadings.includes(h)),
+      paragraphs:
+        oldPage && newPage
+          ? diffParagraphs(paragraphsOf(oldPage.content), paragraphsOf(newPage.content))
+          : [],
+      tokensBefore,
+      tokensAfter,
+      tokenDelta: tokensAfter - tokensBefore,
+    });
+  }
+
+  const deprecations = pages.flatMap((p) => {
+    const texts =
+      p.status === "added"
+        ? paragraphsOf(newPages.get(p.path)!.content)
+        : p.paragraphs.map((c) => c.after).filter((t): t is string => t !== null);
+    return texts.filter((t) => DEPRECATION_PATTERN.test(t)).map((text) => ({ path: p.path, text }));
+  });
+
+  return {
+    from: before.generatedAt,
+    to: after.generatedAt,
+    pagesAdded: pages.filter((p) => p.status === "added").length,
+    pagesRemoved: pages.filter((p) => p.status === "removed").length,
+    pagesChanged: pages.filter((p) => p.status === "changed").length,
+    tokenDelta: pages.reduce((sum, p) => sum + p.tokenDelta, 0),
+    deprecations,
+    pages,
+  };
+}
+
+function signed(n: number): string {
+  return `${n >= 0 ? "+" : ""}${n.toLocaleString()}`;
+}
+
+function clip(text: string, length = 400): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > length ? `${flat.slice(0, length)}...` : flat;
+}
+
+/**
+ * Render a change report as markdown, suitable for a commit body or PR description.
+ */
+export function formatChangeReport(report: ChangeReport): string {
+  const lines: string[] = [];
+  const total = report.pagesAdded + report.pagesRemoved + report.pagesChanged;
+
+  if (total === 0) {
+    return "No documentation changes.";
+  }
+
+  lines.push(
+    `${report.pagesChanged} page(s) changed, ${report.pagesAdded} added, ${report.pagesRemoved} removed ` +
+      `(${signed(report.tokenDelta)} tokens).`
+  );
+
+  if (report.deprecations.length > 0) {
+    lines.push("", "## Deprecation notices", "");
+    for (const d of report.deprecations) {
+      lines.push(`- ${d.path}: ${clip(d.text, 200)}`);
+    }
+  }
+
+  for (const status of ["added", "removed"] as const) {
+    const pages = report.pages.filter((p) => p.status === status);
+    if (pages.length === 0) continue;
+    lines.push("", `## ${status === "added" ? "Added" : "Removed"} pages`, "");
+    for (const p of pages) {
+      lines.push(`- [${p.title}](${p.url}) (${signed(p.tokenDelta)} tokens)`);
+    }
+  }
+
+  const changed = report.pages.filter((p) => p.status === "changed");
+  if (changed.length > 0) {
+    lines.push("", "## Changed pages");
+    for (const p of changed) {
+      lines.push("", `### [${p.title}](${p.url}) (${signed(p.tokenDelta)} tokens)`, "");
+      if (p.headingsAdded.length > 0) lines.push(`Headings added: ${p.headingsAdded.join(", ")}`, "");
+      if (p.headingsRemoved.length > 0) lines.push(`Headings removed: ${p.headingsRemoved.join(", ")}`, "");
+      if (p.paragraphs.length > 0) {
+        lines.push("```diff");
+        for (const change of p.paragraphs) {
+          if (change.before !== null) lines.push(`- ${clip(change.before)}`);
+          if (change.after !== null) lines.push(`+ ${clip(change.after)}`);
+        }
+        lines.push("```");
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// CLI: bun run diff --from <previous docs dir> [--to <docs dir>] [--json] [--out <file>]
+if (import.meta.main) {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const i = args.indexOf(name);
+    return i >= 0 ? args[i + 1] : undefined;
+  };
+
+  const from = option("--from");
+  if (!from) {
+    console.error("Usage: bun run diff --from <previous docs dir> [--to <docs dir>] [--json] [--out <file>]");
+    process.exit(1);
+  }
+
+  const before = loadCorpus(from);
+  const after = loadCorpus(option("--to"));
+  const report = diffCorpora(
+    { generatedAt: before.manifest.generatedAt, chunks: before.chunks },
+    { generatedAt: after.manifest.generatedAt, chunks: after.chunks }
+  );
+
+  const output = args.includes("--json") ? JSON.stringify(report, null, 2) : formatChangeReport(report);
+  const out = option("--out");
+  if (out) {
+    writeFileSync(out, output);
+  } else {
+    console.log(output);
+  }
+}
@@ -0,0 +1,161 @@
+import * as cheerio from "cheerio";
+import type { Cheerio, CheerioAPI } from "cheerio";
+import type { Element } from "domhandler";
+import { USER_AGENT } from "./config.ts";
+import { FetchError, politeFetch } from "./fetch.ts";
+import { DEFAULT_SITE, siteUrl, toSitePath, type SiteConfig } from "./site.ts";
+
+export interface NavItem {
+  title: string;
+  path: string;
+  children: NavItem[];
+}
+
+export interface NavCategory {
+  title: string;
+  items: NavItem[];
+}
+
+export interface DiscoveryReport {
+  // Every page to crawl: seeds first, then newly found pages
+  pages: Array<{ path: string; section: string }>;
+  navigation: NavCategory[];
+  sitemapPaths: string[];
+  // Seed paths that are in neither the sitemap nor the sidebar
+  staleSeeds: string[];
+  // Live pages that aren't listed in the site's seeds
+  missingFromSeeds: Array<{ path: string; section: string }>;
+}
+
+async function fetchText(url: string, accept: string): Promise<string | null> {
+  try {
+    const res = await politeFetch(url, { headers: { "User-Agent": USER_AGENT, Accept: accept } });
+    return await res.text();
+  } catch (err) {
+    console.error(`  [${err instanceof FetchError ? err.status ?? "ERROR" : "ERROR"}] ${url}: ${err instanceof Error ? err.message : err}`);
+    return null;
+  }
+}
+
+/**
+ * Parse a sitemap (or sitemap index) into the site's page paths.
+ */
+export async function readSitemap(
+  site: SiteConfig = DEFAULT_SITE,
+  url = siteUrl(site, "/sitemap.xml"),
+  depth = 0
+): Promise<string[]> {
+  const xml = await fetchText(url, "application/xml");
+  if (!xml) return [];
+
+  const $ = cheerio.load(xml, { xml: true });
+  const paths = new Set<string>();
+
+  // Sitemap indexes point at further sitemaps
+  if (depth < 2) {
+    for (const loc of $("sitemap > loc").toArray()) {
+      for (const path of await readSitemap(site, $(loc).text().trim(), depth + 1)) {
+        paths.add(path);
+      }
+    }
+  }
+
+  $("url > loc").each((_, loc) => {
+    const path = toSitePath(site, $(loc).text().trim());
+    if (path) paths.add(path);
+  });
+
+  return [...paths].sort();
+}
+
+function parseNavList($: CheerioAPI, list: Cheerio<Element>, site: SiteConfig): NavItem[] {
+  const items: NavItem[] = [];
+  list.children("li").each((_, li) => {
+    const $li = $(li);
+    const $link = $li.children("a").first();
+    const path = toSitePath(site, $link.attr("href"));
+    if (!path) return;
+
+    items.push({
+      title: $link.text().replace(/\s+/g, " ").trim(),
+      path,
+      children: parseNavList($, $li.children("ul").first(), site),
+    });
+  });
+  return items;
+}
+
+/**
+ * Parse ReadMe's sidebar navigation into categories of (nested) pages.
+ */
+export function parseSidebar(html: string, site: SiteConfig = DEFAULT_SITE): NavCategory[] {
+  const $ = cheerio.load(html);
+  const sidebar = $(".rm-Sidebar, nav[class*='Sidebar'], [class*='hub-sidebar']").first();
+  const categories: NavCategory[] = [];
+
+  sidebar.find("section").each((_, section) => {
+    const $section = $(section);
+    const title = $section
+      .find(".rm-Sidebar-heading, [class*='Sidebar-heading'], h2, h3")
+      .first()
+      .text()
+      .replace(/\s+/g, " ")
+      .trim();
+    const items = parseNavList($, $section.find("ul").first(), site);
+    if (title && items.length > 0) {
+      categories.push({ title, items });
+    }
+  });
+
+  return categories;
+}
+
+function flattenNav(items: NavItem[]): NavItem[] {
+  return items.flatMap((item) => [item, ...flattenNav(item.children)]);
+}
+
+/**
+ * Build the full page list from the seeds, the sitemap and the sidebar.
+ * Pages get their sidebar category; seeded pages that aren't in the sidebar
+ * keep their seed section, and other pages are "Discovered".
+ */
+export async function discoverPages(
+  seeds: Array<{ path: string; section: string }>,
+  site: SiteConfig = DEFAULT_SITE
+): Promise<DiscoveryReport> {
+  const sitemapPaths = await readSitemap(site);
+  console.log(`  Sitemap: ${sitemapPaths.length} docs pages`);
+
+  const sidebarHtml = seeds.length > 0 ? await fetchText(siteUrl(site, seeds[0].path), "text/html") : null;
+  const navigation = sidebarHtml ? parseSidebar(sidebarHtml, site) : [];
+  console.log(`  Sidebar: ${navigation.length} categories`);
+
+  const navSections = new Map<string, string>();
+  for (const category of navigation) {
+    for (const item of flattenNav(category.items)) {
+      if (!navSections.has(item.path)) navSections.set(item.path, category.title);
+    }
+  }
+
+  const seedPaths = new Set(seeds.map((s) => s.path));
+  const livePaths = new Set([...sitemapPaths, ...navSections.keys()]);
+
+  const missingFromSeeds = [...livePaths]
+    .filter((path) => !seedPaths.has(path))
+    .sort()
+    .map((path) => ({ path, section: navSections.get(path) ?? "Discovered" }));
+
+  // Without a sitemap or sidebar there is nothing to compare seeds against
+  const staleSeeds = livePaths.size > 0 ? seeds.map((s) => s.path).filter((path) => !livePaths.has(path)) : [];
+
+  return {
+    pages: [
+      ...seeds.map((seed) => ({ path: seed.path, section: navSections.get(seed.path) ?? seed.section })),
+      ...missingFromSeeds,
+    ],
+    navigation,
+    sitemapPaths,
+    staleSeeds,
+    missingFromSeeds,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Embedders turn text into vectors for the search index. Vectors are sparse
+ * maps from dimension (a term, or a stringified index for dense models) to
+ * weight, so lexical and neural embedders share one index format.
+ */
+export type Vector = Record<string, number>;
+
+export interface Embedder<State = unknown> {
+  name: string;
+  // Learn corpus-level statistics. The state is stored in the index so
+  // queries are embedded the same way as the documents were.
+  fit(texts: string[]): State;
+  embed(texts: string[], state: State): Promise<Vector[]>;
+}
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by can do does for from has have how if in into is it its " +
+    "not of on or so that the their then there these they this to was we were what when " +
+    "which will with you your"
+  ).split(" ")
+);
+
+/**
+ * Split text into normalized search terms. Dotted and underscored
+ * identifiers ("roles.student.sis_id", "v3.1") are kept whole and also
+ * indexed by their parts.
+ */
+export function tokenizeWords(text: string): string[] {
+  const terms: string[] = [];
+  for (const match of text.toLowerCase().matchAll(/[a-z0-9]+(?:[._][a-z0-9]+)*/g)) {
+    const word = match[0];
+    const parts = word.includes(".") || word.includes("_") ? [word, ...word.split(/[._]/)] : [word];
+    for (const part of parts) {
+      if (part.length < 2 || STOPWORDS.has(part)) continue;
+      // Naive plural folding: "sections" -> "section"
+      terms.push(part.length > 3 && /[^s]s$/.test(part) ? part.slice(0, -1) : part);
+    }
+  }
+  return terms;
+}
+
+interface TfidfState {
+  idf: Record<string, number>;
+}
+
+/**
+ * Deterministic TF-IDF embedder with sublinear term frequency and
+ * L2-normalized vectors. Needs no model download and runs anywhere.
+ */
+export function createTfidfEmbedder(): Embedder<TfidfState> {
+  return {
+    name: "tfidf",
+
+    fit(texts) {
+      const df = new Map<string, number>();
+      for (const text of texts) {
+        for (const term of new Set(tokenizeWords(text))) {
+          df.set(term, (df.get(term) ?? 0) + 1);
+        }
+      }
+
+      const idf: Record<string, number> = {};
+      for (const term of [...df.keys()].sort()) {
+        idf[term] = round(Math.log((1 + texts.length) / (1 + df.get(term)!)) + 1);
+      }
+      return { idf };
+    },
+
+    async embed(texts, state) {
+      return texts.map((text) => {
+        const tf = new Map<string, number>();
+        for (const term of tokenizeWords(text)) {
+          if (term in state.idf) tf.set(term, (tf.get(term) ?? 0) + 1);
+        }
+
+        const vector: Vector = {};
+        for (const [term, count] of tf) {
+          vector[term] = (1 + Math.log(count)) * state.idf[term];
+        }
+        return normalize(vector);
+      });
+    },
+  };
+}
+
+const EMBEDDERS: Record<string, () => Embedder<unknown>> = {
+  tfidf: createTfidfEmbedder,
+};
+
+/**
+ * Look up an embedder by name. Register additional (e.g. local neural)
+ * embedders in EMBEDDERS.
+ */
+export function getEmbedder(name: string): Embedder<unknown> {
+  const create = EMBEDDERS[name];
+  if (!create) {
+    throw new Error(`Unknown embedder "${name}". Available: ${Object.keys(EMBEDDERS).join(", ")}`);
+  }
+  return create();
+}
+
+function round(n: number): number {
+  return Math.round(n * 10_000) / 10_000;
+}
+
+function normalize(vector: Vector): Vector {
+  const norm = Math.sqrt(Object.values(vector).reduce((sum, w) => sum + w * w, 0));
+  if (norm === 0) return vector;
+
+  const result: Vector = {};
+  for (const [key, weight] of Object.entries(vector)) {
+    result[key] = round(weight / norm);
+  }
+  return result;
+}
+
+/**
+ * Cosine similarity of two normalized vectors.
+ */
+export function similarity(a: Vector, b: Vector): number {
+  const [small, large] = Object.keys(a).length < Object.keys(b).length ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [key, weight] of Object.entries(small)) {
+    const other = large[key];
+    if (other !== undefined) dot += weight * other;
+  }
+  return dot;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import { chunkPage } from "./chunk.ts";
+import { TAG_RULES } from "./config.ts";
+import { extractFromHtml } from "./crawl.ts";
+import { buildErrorCatalog, errorMessage, explainError, extractErrors } from "./errors.ts";
+import { sanitizePage } from "./sanitize.ts";
+import { tagChunks } from "./tags.ts";
+import { FIXTURE_BASE_URL, fixtureSite, readFixture } from "./__fixtures__/fixtures.ts";
+
+const path = "/docs/clever-lms-connect-api-errors";
+const page = sanitizePage(
+  extractFromHtml(readFixture("error-reference.html"), `${FIXTURE_BASE_URL}${path}`, path, "Fixtures", "static", fixtureSite())
+);
+const errors = extractErrors(page, tagChunks(chunkPage(page), TAG_RULES));
+const catalog = buildErrorCatalog([page], [], "<generatedAt>");
+
+describe("extractErrors", () => {
+  test("reads status, meaning and recommended action columns", () => {
+    expect(errors[0]).toEqual({
+      status: 400,
+      message: null,
+      product: "LMS Connect",
+      meaning: "Bad request",
+      action: "Check your request parameters and body. Do not retry until you fix the request.",
+      sourceUrl: `${FIXTURE_BASE_URL}${path}#error-messages`,
+      path,
+    });
+  });
+
+  test("splits rows listing several statuses and reads codes next to the status", () => {
+    expect(errors.filter((e) => e.meaning === "Clever API failure").map((e) => e.status)).toEqual([500, 502, 503]);
+    expect(errors[1]).toMatchObject({ status: 400, message: "Invalid grant: invalid code" });
+  });
+
+  test("pulls messages out of error bodies, closed or not", () => {
+    const assignments = errors.filter((e) => e.sourceUrl.endsWith("#assignments"));
+    expect(assignments.map((e) => [e.status, e.message])).toEqual([
+      [400, "missing required field(s): title, description, due_date"],
+      [400, "due_date must be in the future"],
+      [403, "Could not authorize token"],
+      [405, "Empty message"],
+    ]);
+    // "Action" could be the request or what to do about it, so it's not read
+    expect(assignments[2]).toMatchObject({ meaning: null, action: null });
+  });
+
+  test("ignores tables without a status column", () => {
+    expect(errors.some((e) => e.sourceUrl.endsWith("#fields"))).toBe(false);
+    expect(catalog.errors).toHaveLength(errors.length);
+  });
+});
+
+describe("explainError", () => {
+  const explain = (query: string) => explainError(catalog, query).map((e) => [e.status, e.message]);
+
+  test("looks up a bare status", () => {
+    expect(explain("429")).toEqual([[429, null]]);
+  });
+
+  test("matches messages from log lines", () => {
+    expect(explain('403 {"message": "Could not authorize token"}')).toEqual([[403, "Could not authorize token"]]);
+    expect(explain("OAuthError: invalid grant: invalid code")).toEqual([[400, "Invalid grant: invalid code"]]);
+  });
+
+  test("falls back to what the status means when the message is unknown", () => {
+    expect(explain("502 Bad Gateway")).toEqual([[502, null]]);
+    expect(explain("418 I'm a teapot")).toEqual([]);
+  });
+
+  test("reads the message out of an error body", () => {
+    expect(errorMessage('{"message":"User not found"}')).toBe("User not found");
+    expect(errorMessage('{"message": "Could not authorize token"')).toBe("Could not authorize token");
+  });
+});
@@ -0,0 +1,220 @@
+import { existsSync, readFileSync } from "fs";
+import { Lexer, type Token, type Tokens } from "marked";
+import { ERRORS_FILE } from "./config.ts";
+import type { CrawlResult } from "./crawl.ts";
+import { parseHeading, resolveAnchor, type DocChunk } from "./chunk.ts";
+
+/**
+ * One row of an error reference table. Rows listing several statuses
+ * ("500, 502, 503") become one entry per status.
+ */
+export interface ErrorEntry {
+  status: number;
+  // The error string Clever returns, when the table gives one
+  message: string | null;
+  product: string | null;
+  // What the status means or what causes it
+  meaning: string | null;
+  // What the docs recommend doing about it
+  action: string | null;
+  // Deep link to the heading the table sits under
+  sourceUrl: string;
+  path: string;
+}
+
+export interface ErrorCatalog {
+  generatedAt: string;
+  errors: ErrorEntry[];
+}
+
+// Header patterns for the columns of an error table. A table is only read
+// when it has a status column.
+const COLUMNS = {
+  status: /\b(?:http|status|response)\b.*\bcode\b|^(?:status|code)$/i,
+  action: /what to do|recommend|resolution|how to fix|next steps?|\bfix\b/i,
+  meaning: /meaning|description|cause|reason|scenario|^when\b/i,
+  message: /error|message|response/i,
+};
+
+type Column = keyof typeof COLUMNS;
+
+/**
+ * Plain text of a table cell: no code spans, links, escapes or line breaks.
+ */
+function cellText(markdown: string): string {
+  return markdown
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/`/g, "")
+    .replace(/\\([\\`*_{}[\]()#+\-.!|<>])/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * The message in an error body like {"message":"User not found"}, which
+ * the docs don't always close properly. Anything else is returned as is.
+ */
+export function errorMessage(text: string): string | null {
+  if (!text) return null;
+  try {
+    const parsed = JSON.parse(text);
+    if (typeof parsed?.message === "string") return parsed.message;
+  } catch {
+    // Not valid JSON; fall through to the pattern
+  }
+  const match = text.match(/"message"\s*:\s*["“”]*(.*?)["“”]*\s*}?\s*$/);
+  return match ? match[1].trim() : text;
+}
+
+/**
+ * Map each column of a table to what it holds, by header. The status column
+ * is picked first so "HTTP response code" isn't read as the message.
+ */
+function classifyColumns(headers: string[]): Partial<Record<Column, number>> {
+  const columns: Partial<Record<Column, number>> = {};
+  for (const column of Object.keys(COLUMNS) as Column[]) {
+    const index = headers.findIndex(
+      (header, i) => COLUMNS[column].test(header) && !Object.values(columns).includes(i)
+    );
+    if (index >= 0) columns[column] = index;
+  }
+  return columns;
+}
+
+/**
+ * Read the rows of an error table. The status cell can carry an error code
+ * too ("400 + Invalid grant: invalid code").
+ */
+function tableErrors(table: Tokens.Table, sourceUrl: string, path: string, product: string | null): ErrorEntry[] {
+  const columns = classifyColumns(table.header.map((cell) => cellText(cell.text)));
+  if (columns.status === undefined) return [];
+
+  return table.rows.flatMap((row) => {
+    const cell = (column: Column) => {
+      const index = columns[column];
+      return index === undefined ? "" : cellText(row[index]?.text ?? "");
+    };
+    const [statusText, ...codeParts] = cell("status").split("+");
+    const statuses = [...statusText.matchAll(/\b[1-5]\d\d\b/g)].map((m) => Number(m[0]));
+    const message = errorMessage(cell("message")) ?? (codeParts.join("+").trim() || null);
+
+    return [...new Set(statuses)].map((status) => ({
+      status,
+      message,
+      product,
+      meaning: cell("meaning") || null,
+      action: cell("action") || null,
+      sourceUrl,
+      path,
+    }));
+  });
+}
+
+/**
+ * The product an error page is about: a product tag named in its title,
+ * else the first product its chunks are tagged with.
+ */
+function pageProduct(page: CrawlResult, chunks: DocChunk[]): string | null {
+  const products = [...new Set(chunks.filter((c) => c.path === page.path).flatMap((c) => c.products ?? []))];
+  return products.find((p) => page.title.toLowerCase().includes(p.toLowerCase())) ?? products[0] ?? null;
+}
+
+/**
+ * Every error listed in a table with a status column on a page.
+ */
+export function extractErrors(page: CrawlResult, chunks: DocChunk[] = []): ErrorEntry[] {
+  const product = pageProduct(page, chunks);
+  const anchorCounts = new Map<string, number>();
+  const errors: ErrorEntry[] = [];
+  let sourceUrl = page.url;
+
+  const visit = (token: Token) => {
+    if (token.type === "heading") {
+      const anchor = resolveAnchor(token.text, anchorCounts);
+      sourceUrl = anchor && parseHeading(token.text).heading !== page.title ? `${page.url}#${anchor}` : page.url;
+    } else if (token.type === "table") {
+      errors.push(...tableErrors(token as Tokens.Table, sourceUrl, page.path, product));
+    } else if (token.type === "blockquote") {
+      (token as Tokens.Blockquote).tokens.forEach(visit);
+    }
+  };
+
+  new Lexer().lex(page.markdown).forEach(visit);
+  return errors;
+}
+
+/**
+ * The errors of every page, in path order. Pages without error tables
+ * contribute nothing.
+ */
+export function buildErrorCatalog(pages: CrawlResult[], chunks: DocChunk[], generatedAt: string): ErrorCatalog {
+  const errors = [...pages].sort((a, b) => a.path.localeCompare(b.path)).flatMap((p) => extractErrors(p, chunks));
+  return { generatedAt, errors };
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9_]+/g) ?? [];
+}
+
+/**
+ * Catalog entries that explain an error from a log: a bare status, or a
+ * message (optionally with its status) such as
+ * `403 {"message": "Could not authorize token"}`. Entries whose message
+ * appears in the log line rank first, then those sharing most of its
+ * words; the status narrows the match when one is given.
+ */
+export function explainError(catalog: ErrorCatalog, query: string): ErrorEntry[] {
+  const status = Number(query.match(/\b[1-5]\d\d\b/)?.[0]) || null;
+  const text = (errorMessage(query.trim()) ?? "").replace(/\b[1-5]\d\d\b/g, " ");
+  const queryWords = new Set(words(text));
+  const normalized = words(text).join(" ");
+
+  const scored = catalog.errors
+    .filter((entry) => !status || entry.status === status)
+    .map((entry) => {
+      const messageWords = words(entry.message ?? "");
+      if (queryWords.size === 0 || messageWords.length === 0) return { entry, score: queryWords.size === 0 ? 1 : 0 };
+      if (normalized.includes(messageWords.join(" "))) return { entry, score: 2 };
+      const shared = messageWords.filter((word) => queryWords.has(word)).length / messageWords.length;
+      return { entry, score: shared >= 0.5 ? shared : 0 };
+    })
+    .filter((s) => s.score > 0);
+
+  // With nothing matching the message, fall back to what the status means
+  if (scored.length === 0 && status) {
+    return catalog.errors.filter((entry) => entry.status === status && !entry.message);
+  }
+  return scored.sort((a, b) => b.score - a.score).map((s) => s.entry);
+}
+
+// CLI: bun run explain-error <status|message> [--file <errors.json>]
+if (import.meta.main) {
+  const args = process.argv.slice(2);
+  const fileIndex = args.indexOf("--file");
+  const file = fileIndex >= 0 ? args[fileIndex + 1] : ERRORS_FILE;
+  const query = args.filter((_, i) => fileIndex < 0 || (i !== fileIndex && i !== fileIndex + 1)).join(" ");
+
+  if (!query) {
+    console.error("Usage: bun run explain-error <status|message> [--file <errors.json>]");
+    process.exit(1);
+  }
+  if (!existsSync(file)) {
+    console.error(`No error catalog at ${file}. Run the spider first.`);
+    process.exit(1);
+  }
+
+  const catalog = JSON.parse(readFileSync(file, "utf-8")) as ErrorCatalog;
+  const matches = explainError(catalog, query);
+  if (matches.length === 0) {
+    console.log(`Nothing in the error catalog matches "${query}".`);
+    process.exit(1);
+  }
+  for (const entry of matches) {
+    const product = entry.product ? ` (${entry.product})` : "";
+    console.log(`${entry.status}${entry.message ? ` ${entry.message}` : ""}${product}`);
+    if (entry.meaning) console.log(`  Meaning: ${entry.meaning}`);
+    if (entry.action) console.log(`  What to do: ${entry.action}`);
+    console.log(`  Source: ${entry.sourceUrl}\n`);
+  }
+}
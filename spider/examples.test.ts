@@ -0,0 +1,129 @@
+import { describe, expect, test } from "bun:test";
+import { chunkPage } from "./chunk.ts";
+import { extractFromHtml, type CrawlResult } from "./crawl.ts";
+import {
+  buildExampleCatalog,
+  detectLanguage,
+  extractExamples,
+  findExamples,
+  normalizeEndpoint,
+  parseExamplesArgs,
+} from "./examples.ts";
+import { EXAMPLES_DIR } from "./config.ts";
+import { sanitizePage } from "./sanitize.ts";
+import { FIXTURE_BASE_URL, fixtureSite, readFixture } from "./__fixtures__/fixtures.ts";
+
+const oauth = sanitizePage(
+  extractFromHtml(readFixture("readme-article.html"), `${FIXTURE_BASE_URL}/docs/oauth`, "/docs/oauth", "Fixtures", "static", fixtureSite())
+);
+
+function page(path: string, markdown: string): CrawlResult {
+  return { ...oauth, path, url: `${FIXTURE_BASE_URL}${path}`, title: "Sections", markdown };
+}
+
+const sections = page(
+  "/docs/sections",
+  [
+    "## Reading a section",
+    "```",
+    "GET /v3.0/sections/58da8a43cc70ab00017a1a87?include=teachers",
+    "Authorization: Bearer {district_app_token}",
+    "```",
+    "## Assignments",
+    "POST /sections/<section\\_id>/assignments (Create Assignment)  ",
+    "Sample Request Body",
+    "```",
+    "JSON  ",
+    '{ "title": "Essay", }',
+    "```",
+    "Sample Response",
+    "```",
+    '{ "data": { "id": "assignment_id" } }',
+    "```",
+  ].join("\n")
+);
+
+describe("extractExamples", () => {
+  test("pairs a curl request with the response shown after it", () => {
+    const [request, response, plain] = extractExamples(oauth, chunkPage(oauth));
+    expect(request).toMatchObject({
+      language: "bash",
+      method: "POST",
+      endpoint: "/oauth/tokens",
+      kind: "request",
+      anchorUrl: `${FIXTURE_BASE_URL}/docs/oauth#exchanging-the-code`,
+    });
+    expect(request.chunkId).toMatch(/^oauth-\d\d$/);
+    expect(response).toMatchObject({ language: "json", method: "POST", endpoint: "/oauth/tokens", kind: "response", validJson: true });
+    expect(plain).toMatchObject({ language: null, endpoint: null, validJson: null });
+  });
+
+  test("reads endpoints from request lines and the prose before a block", () => {
+    const [read, body, reply] = extractExamples(sections);
+    expect(read).toMatchObject({ language: "http", method: "GET", endpoint: "/v3.0/sections/{id}", kind: "request" });
+    expect(body).toMatchObject({ declaredLanguage: "json", method: "POST", endpoint: "/sections/{id}/assignments", kind: "request" });
+    expect(reply).toMatchObject({ endpoint: "/sections/{id}/assignments", kind: "response", validJson: true });
+  });
+
+  test("numbers the anchors of repeated headings the way ReadMe does", () => {
+    const block = (request: string) => ["## Example", "```", request, "```"];
+    const repeated = page("/docs/sections", [...block("GET /sections"), ...block("GET /schools")].join("\n"));
+    const examples = extractExamples(repeated, chunkPage(repeated));
+    expect(examples.map((e) => e.anchorUrl)).toEqual([
+      `${FIXTURE_BASE_URL}/docs/sections#example`,
+      `${FIXTURE_BASE_URL}/docs/sections#example-1`,
+    ]);
+  });
+
+  test("reports JSON that doesn't parse", () => {
+    const body = extractExamples(sections)[1];
+    expect(body.code).toBe('{ "title": "Essay", }');
+    expect(body.validJson).toBe(false);
+    expect(body.jsonError).toBeTruthy();
+  });
+});
+
+describe("helpers", () => {
+  test("normalizes IDs and placeholders in endpoints", () => {
+    expect(normalizeEndpoint("https://api.clever.com/v3.0/sections/58da8a43cc70ab00017a1a87?limit=1")).toBe("/v3.0/sections/{id}");
+    expect(normalizeEndpoint("/v3.0/users/:id/sections/{section_id}")).toBe("/v3.0/users/{id}/sections/{id}");
+  });
+
+  test("detects the language of unlabeled blocks", () => {
+    expect(detectLanguage("curl https://api.clever.com/v3.0/me")).toBe("bash");
+    expect(detectLanguage("HTTP/1.1 401 Unauthorized")).toBe("http");
+    expect(detectLanguage('"data": { "id": "string" }')).toBe("json");
+    expect(detectLanguage("plain text")).toBeNull();
+  });
+});
+
+describe("buildExampleCatalog", () => {
+  const { catalog, examples } = buildExampleCatalog([sections, oauth], [], "<generatedAt>");
+
+  test("indexes examples by endpoint", () => {
+    expect(catalog.totalExamples).toBe(examples.length);
+    expect(catalog.endpoints).toEqual({
+      "GET /v3.0/sections/{id}": ["sections-example-00"],
+      "POST /oauth/tokens": ["oauth-example-00", "oauth-example-01"],
+      "POST /sections/{id}/assignments": ["sections-example-01", "sections-example-02"],
+    });
+    expect(catalog.examples[0]).not.toHaveProperty("code");
+  });
+
+  test("looks examples up by method and concrete URL", () => {
+    expect(findExamples(catalog, "get https://api.clever.com/v3.0/sections/58da8a43cc70ab00017a1a87").map((e) => e.id)).toEqual([
+      "sections-example-00",
+    ]);
+    expect(findExamples(catalog, "DELETE /v3.0/sections/{id}")).toEqual([]);
+  });
+});
+
+describe("CLI", () => {
+  test("parses the query with and without --dir", () => {
+    expect(parseExamplesArgs(["GET /v3.0/sections/{id}"])).toEqual({ dir: EXAMPLES_DIR, query: "GET /v3.0/sections/{id}" });
+    expect(parseExamplesArgs(["GET", "/v3.0/me", "--dir", "/tmp/examples"])).toEqual({
+      dir: "/tmp/examples",
+      query: "GET /v3.0/me",
+    });
+  });
+});
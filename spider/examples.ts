@@ -0,0 +1,323 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { Lexer, type Token, type Tokens } from "marked";
+import { EXAMPLES_DIR } from "./config.ts";
+import type { CrawlResult } from "./crawl.ts";
+import { pageSlug, parseHeading, resolveAnchor, type DocChunk } from "./chunk.ts";
+
+/**
+ * A fenced code block from a page, with what it shows: which endpoint, and
+ * whether it's the request or the response.
+ */
+export interface CodeExample {
+  id: string;
+  path: string;
+  title: string;
+  heading: string;
+  // Deep link to the heading the example sits under
+  anchorUrl: string;
+  // The chunk whose content includes the example, when there is one
+  chunkId: string | null;
+  // The fence's language hint, else one inferred from the code
+  language: string | null;
+  declaredLanguage: string | null;
+  // e.g. "GET" and "/v3.0/sections/{id}"; null when nothing names one
+  method: string | null;
+  endpoint: string | null;
+  kind: "request" | "response" | null;
+  // Whether a JSON example parses; null for other languages
+  validJson: boolean | null;
+  jsonError: string | null;
+  code: string;
+}
+
+export interface ExampleCatalog {
+  generatedAt: string;
+  totalExamples: number;
+  // "GET /v3.0/sections/{id}" (or just the path when no method is shown)
+  // -> IDs of its examples
+  endpoints: Record<string, string[]>;
+  examples: Array<Omit<CodeExample, "code"> & { file: string }>;
+}
+
+const METHODS = "GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS";
+
+interface Endpoint {
+  method: string | null;
+  endpoint: string | null;
+}
+
+// "GET /v3.0/users?role=student" on a line of its own, as in a raw HTTP
+// request; "HTTP/1.1 200 OK" or "Status: 429 Too Many Requests" in a response
+const REQUEST_LINE = new RegExp(`^(?:\\$\\s*)?(${METHODS})\\s+((?:/|https?://)\\S*)$`, "m");
+const STATUS_LINE = /^(?:HTTP(?:\/[\d.]+)?|Status:)\s+\d{3}\b/m;
+
+// ReadMe's code tabs can leave the tab name on the first line of the block
+const TAB_LABEL = /^(bash|curl|shell|json|http|python|node|javascript|ruby|php|java|text)[ \t]*\n/i;
+
+// Clever API URLs, including the OAuth endpoints on clever.com
+const API_URL = /https?:\/\/(?:api\.clever\.com|clever\.com(?=\/oauth\/))(\/[^\s"'`<>)\\]*)/;
+
+// "GET /v3.0/sections/{id}" or "POST https://clever.com/oauth/tokens" in prose
+const PROSE_ENDPOINT = new RegExp(
+  `\\b(${METHODS})\`?\\s+\`?(?:https?://(?:api\\.)?clever\\.com)?(/[a-z][^\\s\`"'()]*)`,
+  "g"
+);
+
+const RESPONSE_WORDS = /\brespon(?:se|ds)\b|\breturns?\b/gi;
+const REQUEST_WORDS = /\brequests?\b|\bpayload\b|\bbody\b/gi;
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  sh: "bash",
+  shell: "bash",
+  curl: "bash",
+  js: "javascript",
+  node: "javascript",
+  ts: "typescript",
+  py: "python",
+  rb: "ruby",
+};
+
+/**
+ * A Clever API path with IDs and placeholders replaced by "{id}", so every
+ * example of an endpoint shares one key:
+ * "https://api.clever.com/v3.0/sections/58da8a43cc70ab00017a1a87?limit=1" -> "/v3.0/sections/{id}".
+ */
+export function normalizeEndpoint(url: string): string {
+  const path = url.replace(/^https?:\/\/[^/]+/, "").replace(/[?#].*$/, "");
+  const segments = path
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => (/^(?:[0-9a-f]{24}|\d+|\{[^}]*\}|:\w+|<[^>]*>)$/i.test(segment) ? "{id}" : segment));
+  return `/${segments.join("/")}`;
+}
+
+/**
+ * Guess the language of an unlabeled block from its first line.
+ */
+export function detectLanguage(code: string): string | null {
+  const text = code.trim();
+  if (/^(?:\$\s*)?(?:curl|sudo|apt-get|yum|brew|pip3?|python3?|npm)\s/.test(text)) return "bash";
+  if (STATUS_LINE.test(text) || REQUEST_LINE.test(text)) return "http";
+  if (/^[[{]/.test(text) || /^"[^"]+"\s*:/.test(text)) return "json";
+  if (/^<\?php/.test(text)) return "php";
+  if (/^(?:import\s+[\w.]+$|from\s+[\w.]+\s+import\b|def\s+\w+\()/m.test(text)) return "python";
+  if (/^(?:const|let|var)\s+\w+\s*=|\brequire\(["']/m.test(text)) return "javascript";
+  if (/^</.test(text)) return "html";
+  return null;
+}
+
+/**
+ * The method and endpoint a block calls: its request line, a curl command,
+ * or an API URL. Falls back to the last endpoint named in the prose of the
+ * section, which is how response examples are usually introduced.
+ */
+function findEndpoint(code: string, proseEndpoint: Endpoint | null): Endpoint | null {
+  const text = code.trim();
+  const requestLine = text.match(REQUEST_LINE);
+  if (requestLine) {
+    return { method: requestLine[1], endpoint: normalizeEndpoint(requestLine[2]) };
+  }
+
+  const url = text.match(API_URL);
+  if (/^(?:\$\s*)?curl\b/.test(text)) {
+    const method = text.match(/(?:-X|--request)\s*["']?([A-Z]+)/)?.[1];
+    const hasBody = /\s(?:-d|--data(?:-\w+)?|--json|-F|--form)\b/.test(text);
+    return { method: method ?? (hasBody ? "POST" : "GET"), endpoint: url ? normalizeEndpoint(url[1]) : null };
+  }
+  if (url && !STATUS_LINE.test(text)) {
+    return { method: null, endpoint: normalizeEndpoint(url[1]) };
+  }
+  return proseEndpoint;
+}
+
+/**
+ * The last "GET /path" in some prose, ignoring markdown escapes
+ * ("/districts/<district\\_id>").
+ */
+function lastProseEndpoint(text: string): Endpoint | null {
+  const match = [...text.replace(/\\([_*[\]<>])/g, "$1").matchAll(PROSE_ENDPOINT)].at(-1);
+  return match ? { method: match[1], endpoint: normalizeEndpoint(match[2].replace(/[.,;:]+$/, "")) } : null;
+}
+
+function lastIndexOf(text: string, pattern: RegExp): number {
+  return [...text.matchAll(pattern)].at(-1)?.index ?? -1;
+}
+
+/**
+ * Request or response: from the block itself when it's a raw HTTP
+ * exchange or a command, else from whichever the text just before it (or
+ * its heading) mentions last, else from the shape of the payload (Clever
+ * wraps responses in "data").
+ */
+function classify(code: string, language: string | null, before: string, heading: string): CodeExample["kind"] {
+  const text = code.trim();
+  if (STATUS_LINE.test(text)) return "response";
+  if (REQUEST_LINE.test(text) || /^(?:\$\s*)?curl\b/.test(text)) return "request";
+  for (const context of [before, heading]) {
+    const response = lastIndexOf(context, RESPONSE_WORDS);
+    const request = lastIndexOf(context, REQUEST_WORDS);
+    if (response >= 0 || request >= 0) return response > request ? "response" : "request";
+  }
+  if (language === "json" && /^\{\s*"(?:data|links|paging)"\s*:/.test(text)) return "response";
+  return null;
+}
+
+function validateJson(code: string): { validJson: boolean; jsonError: string | null } {
+  try {
+    JSON.parse(code);
+    return { validJson: true, jsonError: null };
+  } catch (err) {
+    return { validJson: false, jsonError: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Every fenced code block on a page, attributed to the heading above it.
+ * The block before it, the heading and the endpoints named since the
+ * heading are used to tell what it shows.
+ */
+export function extractExamples(page: CrawlResult, chunks: DocChunk[] = []): CodeExample[] {
+  const slug = pageSlug(page.path);
+  const pageChunks = chunks.filter((c) => c.path === page.path && c.kind !== "endpoint");
+  const anchorCounts = new Map<string, number>();
+  const examples: CodeExample[] = [];
+  let heading = page.title;
+  let anchorUrl = page.url;
+  let lastText = "";
+  let proseEndpoint: Endpoint | null = null;
+
+  const visit = (token: Token) => {
+    if (token.type === "heading") {
+      heading = parseHeading(token.text).heading || page.title;
+      lastText = "";
+      proseEndpoint = lastProseEndpoint(token.text);
+      const anchor = resolveAnchor(token.text, anchorCounts);
+      anchorUrl = anchor && heading !== page.title ? `${page.url}#${anchor}` : page.url;
+    } else if (token.type === "code" && token.codeBlockStyle !== "indented") {
+      const label = token.lang ? null : token.text.match(TAB_LABEL);
+      const code: string = label ? token.text.slice(label[0].length) : token.text;
+      if (!code.trim()) return;
+      const declared = (label?.[1] ?? token.lang)?.trim().split(/\s+/)[0].toLowerCase() || null;
+      const language = declared ? (LANGUAGE_ALIASES[declared] ?? declared) : detectLanguage(code);
+
+      const kind = classify(code, language, lastText, heading);
+      let endpoint = findEndpoint(code, proseEndpoint);
+      // A response shown right after its request answers the same endpoint
+      const previous = examples.at(-1);
+      if (!endpoint && kind === "response" && previous?.kind === "request" && previous.endpoint) {
+        endpoint = { method: previous.method, endpoint: previous.endpoint };
+      }
+
+      examples.push({
+        id: `${slug}-example-${String(examples.length).padStart(2, "0")}`,
+        path: page.path,
+        title: page.title,
+        heading,
+        anchorUrl,
+        chunkId: pageChunks.find((c) => c.content.includes(code))?.id ?? null,
+        language,
+        declaredLanguage: declared,
+        method: endpoint?.method ?? null,
+        endpoint: endpoint?.endpoint ?? null,
+        kind,
+        ...(language === "json" ? validateJson(code) : { validJson: null, jsonError: null }),
+        code,
+      });
+    } else if (token.type === "blockquote" || token.type === "list") {
+      // Callouts and lists can hold code blocks of their own
+      const children =
+        token.type === "list"
+          ? (token as Tokens.List).items.flatMap((item) => item.tokens)
+          : (token as Tokens.Blockquote).tokens;
+      children.forEach(visit);
+    } else if (token.raw.trim()) {
+      lastText = token.raw.trim();
+      proseEndpoint = lastProseEndpoint(lastText) ?? proseEndpoint;
+    }
+  };
+
+  new Lexer().lex(page.markdown).forEach(visit);
+  return examples;
+}
+
+/**
+ * The examples of every page, and the catalog indexing them by endpoint.
+ */
+export function buildExampleCatalog(
+  pages: CrawlResult[],
+  chunks: DocChunk[],
+  generatedAt: string
+): { catalog: ExampleCatalog; examples: CodeExample[] } {
+  const examples = [...pages].sort((a, b) => a.path.localeCompare(b.path)).flatMap((p) => extractExamples(p, chunks));
+
+  const endpoints: Record<string, string[]> = {};
+  for (const example of examples) {
+    if (!example.endpoint) continue;
+    const key = example.method ? `${example.method} ${example.endpoint}` : example.endpoint;
+    (endpoints[key] ??= []).push(example.id);
+  }
+
+  return {
+    catalog: {
+      generatedAt,
+      totalExamples: examples.length,
+      endpoints: Object.fromEntries(Object.entries(endpoints).sort(([a], [b]) => a.localeCompare(b))),
+      examples: examples.map(({ code: _, ...example }) => ({ ...example, file: `${example.id}.json` })),
+    },
+    examples,
+  };
+}
+
+/**
+ * Examples of an endpoint, given as "GET /v3.0/sections/{id}", a bare path
+ * or a concrete URL. Examples that name the path but no method match any
+ * method.
+ */
+export function findExamples(catalog: ExampleCatalog, query: string): ExampleCatalog["examples"] {
+  const [, method, target] = query.trim().match(new RegExp(`^(?:(${METHODS})\\s+)?(\\S+)$`, "i")) ?? [];
+  if (!target) return [];
+  const endpoint = normalizeEndpoint(target);
+  return catalog.examples.filter(
+    (e) => e.endpoint === endpoint && (!method || !e.method || e.method === method.toUpperCase())
+  );
+}
+
+/**
+ * Split the CLI arguments into the examples directory (--dir) and the
+ * endpoint to look up (everything else).
+ */
+export function parseExamplesArgs(args: string[]): { dir: string; query: string } {
+  const dirIndex = args.indexOf("--dir");
+  return {
+    dir: dirIndex >= 0 ? args[dirIndex + 1] : EXAMPLES_DIR,
+    query: args.filter((_, i) => dirIndex < 0 || (i !== dirIndex && i !== dirIndex + 1)).join(" "),
+  };
+}
+
+// CLI: bun run examples "<METHOD> <path>" [--dir <examples dir>]
+if (import.meta.main) {
+  const { dir, query } = parseExamplesArgs(process.argv.slice(2));
+  const indexFile = join(dir, "index.json");
+
+  if (!query) {
+    console.error('Usage: bun run examples "<METHOD> <path>" [--dir <examples dir>]');
+    process.exit(1);
+  }
+  if (!existsSync(indexFile)) {
+    console.error(`No example catalog at ${indexFile}. Run the spider first.`);
+    process.exit(1);
+  }
+
+  const catalog = JSON.parse(readFileSync(indexFile, "utf-8")) as ExampleCatalog;
+  const matches = findExamples(catalog, query);
+  if (matches.length === 0) console.log(`No examples for ${query}.`);
+  for (const match of matches) {
+    const example = JSON.parse(readFileSync(join(dir, match.file), "utf-8")) as CodeExample;
+    const invalid = example.validJson === false ? ` (invalid JSON: ${example.jsonError})` : "";
+    console.log(`--- ${example.id}: ${example.kind ?? "example"} from ${example.anchorUrl}${invalid}`);
+    console.log("```" + (example.language ?? ""));
+    console.log(example.code);
+    console.log("```\n");
+  }
+}
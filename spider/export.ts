@@ -0,0 +1,231 @@
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import type { CrawlResult } from "./crawl.ts";
+import { pageContent, type DocChunk } from "./chunk.ts";
+import type { SiteConfig } from "./site.ts";
+import { filterSlug, isEmptyFilter, matchesTagFilter, type TagField, type TagFilter } from "./tags.ts";
+
+export interface ExportContext {
+  site: SiteConfig;
+  pages: CrawlResult[];
+  chunks: DocChunk[];
+  // Only export chunks matching these tags
+  filter?: TagFilter;
+}
+
+export interface Exporter {
+  name: string;
+  description: string;
+  // Writes its output and returns the paths it wrote
+  run(ctx: ExportContext): string[];
+}
+
+interface ExportPage {
+  page: CrawlResult;
+  chunks: DocChunk[];
+}
+
+/**
+ * Pages that made it into the corpus, grouped by section in seed
+ * order (sections not in the seeds, like "Discovered", come last).
+ * Endpoint chunks aren't part of the page they're cited against.
+ */
+function pagesBySection(ctx: ExportContext): Array<{ section: string; pages: ExportPage[] }> {
+  const chunksByPath = new Map<string, DocChunk[]>();
+  for (const chunk of ctx.chunks.filter((c) => c.kind !== "endpoint")) {
+    const list = chunksByPath.get(chunk.path) ?? [];
+    list.push(chunk);
+    chunksByPath.set(chunk.path, list);
+  }
+
+  const seedOrder = Object.keys(ctx.site.seeds);
+  const sections = [...new Set(ctx.pages.map((p) => p.section))].sort((a, b) => {
+    const ai = seedOrder.indexOf(a);
+    const bi = seedOrder.indexOf(b);
+    return (ai < 0 ? Infinity : ai) - (bi < 0 ? Infinity : bi) || a.localeCompare(b);
+  });
+
+  return sections.map((section) => ({
+    section,
+    pages: ctx.pages
+      .filter((page) => page.section === section && chunksByPath.has(page.path))
+      .map((page) => ({
+        page,
+        chunks: chunksByPath.get(page.path)!.sort((a, b) => a.chunkIndex - b.chunkIndex),
+      })),
+  }));
+}
+
+function pageMarkdown(chunks: DocChunk[]): string {
+  return chunks.map(pageContent).join("\n\n");
+}
+
+const jsonlExporter: Exporter = {
+  name: "jsonl",
+  description: "All chunks as JSON Lines, for bulk ingestion into vector DBs",
+  run(ctx) {
+    const file = join(ctx.site.outputDir, "chunks.jsonl");
+    writeFileSync(file, ctx.chunks.map((c) => JSON.stringify(c)).join("\n") + "\n");
+    return [file];
+  },
+};
+
+const faqExporter: Exporter = {
+  name: "faq",
+  description: "Question/answer pairs from FAQ-style pages as JSON Lines, for fine-tuning and retrieval evals",
+  run(ctx) {
+    const file = join(ctx.site.outputDir, "faq.jsonl");
+    const pairs = ctx.chunks
+      .filter((c) => c.kind === "faq")
+      .map((c) => ({
+        id: c.id,
+        question: c.heading,
+        // FAQ chunks start with their question, as a heading or a bold line
+        answer: c.content.replace(/^.*\n?/, "").trim(),
+        url: c.anchorUrl,
+        path: c.path,
+        title: c.title,
+        section: c.section,
+        ...(c.apiVersions && { apiVersions: c.apiVersions }),
+        ...(c.products && { products: c.products }),
+        ...(c.audience && { audience: c.audience }),
+      }));
+    writeFileSync(file, pairs.map((pair) => JSON.stringify(pair)).join("\n") + (pairs.length > 0 ? "\n" : ""));
+    return [file];
+  },
+};
+
+const llmsExporter: Exporter = {
+  name: "llms",
+  description: "llms.txt index and llms-full.txt concatenation, grouped by section",
+  run(ctx) {
+    const groups = pagesBySection(ctx).filter((g) => g.pages.length > 0);
+    const header = [`# ${ctx.site.title}`];
+    if (ctx.site.description) header.push("", `> ${ctx.site.description}`);
+
+    const index = [...header];
+    for (const { section, pages } of groups) {
+      index.push("", `## ${section}`, "");
+      for (const { page } of pages) {
+        index.push(`- [${page.title}](${page.url})${page.description ? `: ${page.description}` : ""}`);
+      }
+    }
+
+    const full = [...header];
+    for (const { section, pages } of groups) {
+      full.push("", `# ${section}`);
+      for (const { page, chunks } of pages) {
+        full.push("", `## ${page.title}`, "", `Source: ${page.url}`, "", pageMarkdown(chunks));
+      }
+    }
+
+    const indexFile = join(ctx.site.outputDir, "llms.txt");
+    const fullFile = join(ctx.site.outputDir, "llms-full.txt");
+    writeFileSync(indexFile, index.join("\n") + "\n");
+    writeFileSync(fullFile, full.join("\n") + "\n");
+    return [indexFile, fullFile];
+  },
+};
+
+const pagesExporter: Exporter = {
+  name: "pages",
+  description: "One markdown file per page with YAML front matter",
+  run(ctx) {
+    const dir = join(ctx.site.outputDir, "pages");
+    if (existsSync(dir)) {
+      rmSync(dir, { recursive: true });
+    }
+
+    const files: string[] = [];
+    for (const { pages } of pagesBySection(ctx)) {
+      for (const { page, chunks } of pages) {
+        const file = join(dir, `${page.path.replace(/^\/(docs\/)?/, "")}.md`);
+        // JSON strings are valid double-quoted YAML scalars
+        const frontMatter = [
+          "---",
+          `title: ${JSON.stringify(page.title)}`,
+          `url: ${JSON.stringify(page.url)}`,
+          `section: ${JSON.stringify(page.section)}`,
+          `description: ${JSON.stringify(page.description)}`,
+          `crawledAt: ${JSON.stringify(page.crawledAt)}`,
+          "---",
+        ].join("\n");
+
+        mkdirSync(dirname(file), { recursive: true });
+        writeFileSync(file, `${frontMatter}\n\n${pageMarkdown(chunks)}\n`);
+        files.push(file);
+      }
+    }
+    return files;
+  },
+};
+
+export const EXPORTERS: Record<string, Exporter> = {
+  jsonl: jsonlExporter,
+  faq: faqExporter,
+  llms: llmsExporter,
+  pages: pagesExporter,
+};
+
+/**
+ * Parse "--export jsonl,llms" / "--export=all" into exporter names.
+ */
+export function parseExportFlag(argv: string[]): string[] {
+  const values: string[] = [];
+  argv.forEach((arg, i) => {
+    if (arg === "--export" && argv[i + 1]) values.push(argv[i + 1]);
+    else if (arg.startsWith("--export=")) values.push(arg.slice("--export=".length));
+  });
+
+  const names = values.flatMap((v) => v.split(",")).map((v) => v.trim()).filter(Boolean);
+  if (names.includes("all")) return Object.keys(EXPORTERS);
+
+  for (const name of names) {
+    if (!EXPORTERS[name]) {
+      throw new Error(`Unknown exporter "${name}". Available: ${Object.keys(EXPORTERS).join(", ")}, all`);
+    }
+  }
+  return [...new Set(names)];
+}
+
+const FILTER_FLAGS: Record<string, TagField> = {
+  "--api-version": "apiVersions",
+  "--product": "products",
+  "--audience": "audience",
+};
+
+/**
+ * Parse "--api-version v3.1", "--product 'LMS Connect,Library'" and
+ * "--audience=district-integrations" into a tag filter for the exports.
+ */
+export function parseTagFilterFlags(argv: string[]): TagFilter {
+  const filter: TagFilter = {};
+  argv.forEach((arg, i) => {
+    const [flag, inline] = arg.split(/=(.*)/s);
+    const field = FILTER_FLAGS[flag];
+    const value = inline ?? argv[i + 1];
+    if (!field || !value) return;
+    const tags = value.split(",").map((v) => v.trim()).filter(Boolean);
+    filter[field] = [...new Set([...(filter[field] ?? []), ...tags])];
+  });
+  return filter;
+}
+
+/**
+ * Run exporters. With a filter, only matching chunks (and the pages they
+ * come from) are exported, into filtered/<filter>/ under the output
+ * directory so the full exports aren't overwritten.
+ */
+export function runExporters(names: string[], ctx: ExportContext): string[] {
+  if (ctx.filter && !isEmptyFilter(ctx.filter)) {
+    const filter = ctx.filter;
+    const outputDir = join(ctx.site.outputDir, "filtered", filterSlug(filter));
+    mkdirSync(outputDir, { recursive: true });
+    ctx = {
+      ...ctx,
+      site: { ...ctx.site, outputDir },
+      chunks: ctx.chunks.filter((c) => matchesTagFilter(c, filter)),
+    };
+  }
+  return names.flatMap((name) => EXPORTERS[name].run(ctx));
+}
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { FetchError, fetchWithRetry, isAllowed, loadRobots, parseRobots } from "./fetch.ts";
+import { MAX_RETRIES } from "./config.ts";
+
+const PAGE = "https://docs.fixture.test/docs/courses";
+
+// Delays the code under test asked to sleep for; sleeps return at once
+let delays: number[] = [];
+// What fetch answers with, in turn, repeating the last one
+let responses: Array<() => Response> = [];
+let calls = 0;
+
+beforeEach(() => {
+  delays = [];
+  spyOn(globalThis, "fetch").mockImplementation((async () =>
+    responses[Math.min(calls++, responses.length - 1)]()) as unknown as typeof fetch);
+  spyOn(globalThis, "setTimeout").mockImplementation(((fn: () => void, ms: number) => {
+    delays.push(ms);
+    fn();
+    return 0;
+  }) as unknown as typeof setTimeout);
+  spyOn(Math, "random").mockReturnValue(0);
+  spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+function serve(...next: Array<() => Response>) {
+  responses = next;
+  calls = 0;
+}
+
+const status = (code: number, headers: Record<string, string> = {}) => () =>
+  new Response("body", { status: code, headers });
+
+describe("fetchWithRetry", () => {
+  test("backs off exponentially between retries", async () => {
+    serve(status(503), status(502), status(200));
+    const res = await fetchWithRetry(PAGE);
+    expect(res.status).toBe(200);
+    expect(calls).toBe(3);
+    expect(delays).toEqual([1000, 2000]);
+  });
+
+  test("retries 5xx until retries run out, but not 4xx", async () => {
+    serve(status(500));
+    expect((await fetchWithRetry(PAGE)).status).toBe(500);
+    expect(calls).toBe(MAX_RETRIES + 1);
+
+    serve(status(404));
+    expect((await fetchWithRetry(PAGE)).status).toBe(404);
+    expect(calls).toBe(1);
+  });
+
+  test("waits out a Retry-After longer than the backoff in full", async () => {
+    serve(status(429, { "Retry-After": "120" }), status(200));
+    expect((await fetchWithRetry(PAGE)).status).toBe(200);
+    expect(delays).toEqual([120_000]);
+  });
+
+  test("fails fast when Retry-After is over the limit", async () => {
+    serve(status(503, { "Retry-After": "3600" }), status(200));
+    await expect(fetchWithRetry(PAGE)).rejects.toThrow(FetchError);
+    expect(calls).toBe(1);
+    expect(delays).toEqual([]);
+  });
+});
+
+describe("robots.txt", () => {
+  const robots = [
+    "User-agent: Googlebot",
+    "Disallow: /",
+    "",
+    "User-agent: cleverdocspider",
+    "Disallow: /docs/private",
+    "Crawl-delay: 2",
+    "",
+    "User-agent: *",
+    "Disallow: /docs",
+  ].join("\n");
+
+  test("picks the group naming our product token, whatever its case", () => {
+    const rules = parseRobots(robots, "CleverDocSpider/1.0");
+    expect(rules.crawlDelaySeconds).toBe(2);
+    expect(isAllowed(rules, "/docs/courses")).toBe(true);
+    expect(isAllowed(rules, "/docs/private/keys")).toBe(false);
+  });
+
+  test("doesn't match a group on part of the product token", () => {
+    const rules = parseRobots(robots.replace("cleverdocspider", "clever"), "CleverDocSpider/1.0");
+    expect(rules.disallow).toEqual(["/docs"]);
+  });
+
+  test("allows everything on a 4xx and nothing on a 5xx", async () => {
+    serve(status(404));
+    expect(isAllowed(await loadRobots("https://missing.fixture.test"), "/docs/courses")).toBe(true);
+
+    serve(status(503));
+    expect(isAllowed(await loadRobots("https://down.fixture.test"), "/docs/courses")).toBe(false);
+  });
+});
@@ -0,0 +1,279 @@
+import {
+  USER_AGENT,
+  MAX_RETRIES,
+  RETRY_BASE_DELAY_MS,
+  MAX_RETRY_DELAY_MS,
+  MAX_RETRY_AFTER_MS,
+  REQUESTS_PER_SECOND,
+  REQUEST_BURST,
+} from "./config.ts";
+
+/**
+ * A request that failed for good: a non-retryable status, retries used up,
+ * or a path robots.txt tells us not to crawl.
+ */
+export class FetchError extends Error {
+  constructor(
+    readonly url: string,
+    readonly status: number | null,
+    readonly attempts: number,
+    message: string,
+    readonly disallowed = false
+  ) {
+    super(message);
+    this.name = "FetchError";
+  }
+}
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelaySeconds: number | null;
+}
+
+const ALLOW_ALL: RobotsRules = { allow: [], disallow: [], crawlDelaySeconds: null };
+const DISALLOW_ALL: RobotsRules = { allow: [], disallow: ["/"], crawlDelaySeconds: null };
+
+/**
+ * Parse robots.txt, keeping the group whose user-agent line names our
+ * product token, compared case-insensitively (falling back to "*").
+ */
+export function parseRobots(text: string, userAgent = USER_AGENT): RobotsRules {
+  const agent = userAgent.split("/")[0].toLowerCase();
+  const groups: Array<{ agents: string[]; rules: RobotsRules }> = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const match = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+    const [, key, value] = match;
+
+    switch (key.toLowerCase()) {
+      case "user-agent":
+        if (!current || !lastWasAgent) {
+          current = { agents: [], rules: { allow: [], disallow: [], crawlDelaySeconds: null } };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      case "allow":
+        if (value) current?.rules.allow.push(value);
+        break;
+      case "disallow":
+        if (value) current?.rules.disallow.push(value);
+        break;
+      case "crawl-delay": {
+        const delay = Number(value);
+        if (current && Number.isFinite(delay)) current.rules.crawlDelaySeconds = delay;
+        break;
+      }
+    }
+    lastWasAgent = false;
+  }
+
+  return (
+    groups.find((g) => g.agents.includes(agent))?.rules ??
+    groups.find((g) => g.agents.includes("*"))?.rules ??
+    ALLOW_ALL
+  );
+}
+
+function robotsPattern(rule: string): RegExp {
+  const escaped = rule.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\\\$$/, "$");
+  return new RegExp(`^${escaped.replace(/\*/g, ".*")}`);
+}
+
+/**
+ * Longest matching rule wins; Allow wins ties.
+ */
+export function isAllowed(rules: RobotsRules, path: string): boolean {
+  const longest = (list: string[]) =>
+    Math.max(-1, ...list.filter((rule) => robotsPattern(rule).test(path)).map((rule) => rule.length));
+  return longest(rules.allow) >= longest(rules.disallow);
+}
+
+const robotsByOrigin = new Map<string, Promise<RobotsRules>>();
+
+/**
+ * Fetch and parse robots.txt once per origin. As RFC 9309 asks, a 4xx
+ * (no robots.txt) allows everything, while a 5xx or an unreachable server
+ * disallows everything.
+ */
+export function loadRobots(origin: string): Promise<RobotsRules> {
+  let rules = robotsByOrigin.get(origin);
+  if (!rules) {
+    rules = fetchWithRetry(`${origin}/robots.txt`, { headers: { "User-Agent": USER_AGENT } })
+      .then(async (res) => {
+        if (res.ok) return parseRobots(await res.text());
+        await res.body?.cancel();
+        return res.status >= 500 ? DISALLOW_ALL : ALLOW_ALL;
+      })
+      .catch(() => DISALLOW_ALL);
+    robotsByOrigin.set(origin, rules);
+  }
+  return rules;
+}
+
+export interface RateLimiter {
+  acquire(): Promise<void>;
+}
+
+/**
+ * Token bucket: allows bursts of up to `burst` requests, refilling at
+ * `ratePerSecond`.
+ */
+export function createTokenBucket(ratePerSecond: number, burst: number): RateLimiter {
+  let tokens = burst;
+  let last = Date.now();
+  let queue = Promise.resolve();
+
+  const take = async () => {
+    for (;;) {
+      const now = Date.now();
+      tokens = Math.min(burst, tokens + ((now - last) / 1000) * ratePerSecond);
+      last = now;
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await sleep(((1 - tokens) / ratePerSecond) * 1000);
+    }
+  };
+
+  return {
+    // Serialize waiters so tokens are handed out in request order
+    acquire() {
+      const turn = queue.then(take);
+      queue = turn.catch(() => {});
+      return turn;
+    },
+  };
+}
+
+const limitersByHost = new Map<string, Promise<RateLimiter>>();
+
+/**
+ * Per-host limiter, slowed down to robots.txt's Crawl-delay when it asks for that.
+ */
+function limiterFor(url: URL): Promise<RateLimiter> {
+  let limiter = limitersByHost.get(url.host);
+  if (!limiter) {
+    limiter = loadRobots(url.origin).then((robots) =>
+      robots.crawlDelaySeconds
+        ? createTokenBucket(Math.min(REQUESTS_PER_SECOND, 1 / robots.crawlDelaySeconds), 1)
+        : createTokenBucket(REQUESTS_PER_SECOND, REQUEST_BURST)
+    );
+    limitersByHost.set(url.host, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Wait for this host's rate limiter. For requests made outside politeFetch
+ * (e.g. Playwright navigations).
+ */
+export async function throttle(url: string): Promise<void> {
+  await (await limiterFor(new URL(url))).acquire();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Delay requested by a Retry-After header (seconds or HTTP date), in ms.
+ */
+function retryAfterMs(res: Response): number | null {
+  const value = res.headers.get("retry-after");
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffMs(attempt: number): number {
+  const exponential = RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(MAX_RETRY_DELAY_MS, exponential + Math.random() * RETRY_BASE_DELAY_MS);
+}
+
+/**
+ * fetch with retries and exponential backoff for 429/5xx responses and
+ * network errors. Resolves with the last response once retries run out.
+ * A Retry-After longer than the backoff is waited out in full, unless it's
+ * over MAX_RETRY_AFTER_MS, which throws a FetchError rather than stall.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  beforeAttempt?: () => Promise<void>
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    await beforeAttempt?.();
+
+    let res: Response;
+    try {
+      res = await fetch(url, init);
+    } catch (err) {
+      if (attempt >= MAX_RETRIES) {
+        throw new FetchError(url, null, attempt + 1, `${err}`);
+      }
+      const delay = backoffMs(attempt);
+      console.error(`  [RETRY ${attempt + 1}/${MAX_RETRIES}] ${url}: ${err} (waiting ${Math.round(delay)}ms)`);
+      await sleep(delay);
+      continue;
+    }
+
+    if (!isRetryable(res.status) || attempt >= MAX_RETRIES) {
+      return res;
+    }
+
+    const retryAfter = retryAfterMs(res) ?? 0;
+    if (retryAfter > MAX_RETRY_AFTER_MS) {
+      await res.body?.cancel();
+      throw new FetchError(
+        url,
+        res.status,
+        attempt + 1,
+        `Retry-After asks for ${Math.ceil(retryAfter / 1000)}s, over the ${MAX_RETRY_AFTER_MS / 1000}s limit`
+      );
+    }
+
+    const delay = Math.max(retryAfter, backoffMs(attempt));
+    console.error(`  [RETRY ${attempt + 1}/${MAX_RETRIES}] [${res.status}] ${url} (waiting ${Math.round(delay)}ms)`);
+    await res.body?.cancel();
+    await sleep(delay);
+  }
+}
+
+/**
+ * Rate-limited, robots.txt-respecting fetch with retries. Resolves with a
+ * 2xx or 304 response; anything else throws a FetchError.
+ */
+export async function politeFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const parsed = new URL(url);
+  const robots = await loadRobots(parsed.origin);
+  if (!isAllowed(robots, parsed.pathname)) {
+    throw new FetchError(url, null, 0, "Disallowed by robots.txt", true);
+  }
+
+  const limiter = await limiterFor(parsed);
+  let attempts = 0;
+  const res = await fetchWithRetry(url, init, async () => {
+    attempts++;
+    await limiter.acquire();
+  });
+
+  if (!res.ok && res.status !== 304) {
+    await res.body?.cancel();
+    throw new FetchError(url, res.status, attempts, `HTTP ${res.status}`);
+  }
+  return res;
+}
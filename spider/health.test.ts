@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import type { DocChunk } from "./chunk.ts";
+import type { Manifest } from "./corpus.ts";
+import type { CrawlFailure, CrawlResult } from "./crawl.ts";
+import { checkCrawlHealth, DEFAULT_THRESHOLDS } from "./health.ts";
+import { FIXTURE_BASE_URL } from "./__fixtures__/fixtures.ts";
+
+const thresholds = { ...DEFAULT_THRESHOLDS, requiredPages: [] };
+const paths = ["/docs/a", "/docs/b", "/docs/c", "/docs/d"];
+
+function page(path: string): CrawlResult {
+  return {
+    url: `${FIXTURE_BASE_URL}${path}`,
+    path,
+    section: "Fixtures",
+    title: path,
+    description: "",
+    markdown: `# ${path}\n\nSome text about ${path}.`,
+    discoveredPaths: [],
+    schemas: [],
+    openapi: [],
+    crawledAt: "<crawledAt>",
+    fetchMethod: "static",
+  };
+}
+
+function chunk(path: string): DocChunk {
+  return {
+    id: `${path.split("/").pop()}-00`,
+    url: `${FIXTURE_BASE_URL}${path}`,
+    anchorUrl: `${FIXTURE_BASE_URL}${path}`,
+    path,
+    section: "Fixtures",
+    title: path,
+    heading: path,
+    headingLevel: 1,
+    parentHeadings: [path],
+    content: `# ${path}\n\nSome text about ${path}.`,
+    tokenEstimate: 10,
+    crawledAt: "<crawledAt>",
+    fetchMethod: "static",
+    chunkIndex: 0,
+    totalChunks: 1,
+  };
+}
+
+function failure(path: string): CrawlFailure {
+  return { path, url: `${FIXTURE_BASE_URL}${path}`, section: "Fixtures", status: 503, error: "HTTP 503", attempts: 3 };
+}
+
+const previous = {
+  totalPages: paths.length,
+  chunks: paths.map((path) => ({ path, tokenEstimate: 10 })),
+} as Manifest;
+
+const pageCount = (fetched: string[], failed: string[], manifest: Manifest | null = previous, folded = 0) =>
+  checkCrawlHealth(
+    { fetched: fetched.map(page), folded, failures: failed.map(failure) },
+    paths.map(chunk),
+    manifest,
+    thresholds
+  ).checks[0];
+
+describe("checkCrawlHealth", () => {
+  test("counts only the pages fetched this run, not ones kept from the cache", () => {
+    const check = pageCount(["/docs/a", "/docs/b"], ["/docs/c", "/docs/d"]);
+    expect(check.passed).toBe(false);
+    expect(check.summary).toBe("2 pages fetched, 2 failed (previous crawl: 4, minimum: 4)");
+    expect(check.details).toEqual(["failed: /docs/c (503)", "failed: /docs/d (503)"]);
+    expect(pageCount(paths, []).passed).toBe(true);
+  });
+
+  test("checks failures against what was attempted on a first crawl", () => {
+    expect(pageCount(["/docs/a"], ["/docs/b"], null).passed).toBe(false);
+    expect(pageCount(paths, [], null).passed).toBe(true);
+  });
+
+  test("compares against the pages the previous run fetched, not its total", () => {
+    // 20 pages last time: 18 fetched, one kept from the cache, one folded duplicate
+    const manifest = { ...previous, totalPages: 20, fetchedPages: 18 } as Manifest;
+    const fetched = Array.from({ length: 17 }, (_, i) => `/docs/p${i}`);
+    const check = pageCount(fetched, ["/docs/kept"], manifest, 2);
+    expect(check.passed).toBe(true);
+    expect(check.summary).toBe("17 pages fetched, 1 failed (previous crawl: 18, minimum: 17)");
+  });
+
+  test("adds folded duplicates back for manifests without fetchedPages", () => {
+    const manifest = { ...previous, totalPages: 20 } as Manifest;
+    const fetched = Array.from({ length: 17 }, (_, i) => `/docs/p${i}`);
+    expect(pageCount(fetched, ["/docs/kept"], manifest, 2).passed).toBe(true);
+    expect(pageCount(fetched, ["/docs/kept"], manifest).passed).toBe(false);
+  });
+});
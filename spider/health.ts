@@ -0,0 +1,213 @@
+import {
+  HEALTH_MIN_PAGE_RATIO,
+  HEALTH_SHRINK_PERCENT,
+  HEALTH_MAX_SHRUNK_PAGES_PERCENT,
+  HEALTH_MAX_BOILERPLATE_CHUNKS,
+  REQUIRED_PAGES,
+} from "./config.ts";
+import type { CrawlFailure, CrawlResult } from "./crawl.ts";
+import type { DocChunk } from "./chunk.ts";
+import type { Manifest } from "./corpus.ts";
+
+export interface HealthThresholds {
+  minPageRatio: number;
+  shrinkPercent: number;
+  maxShrunkPagesPercent: number;
+  maxBoilerplateChunks: number;
+  requiredPages: string[];
+}
+
+export const DEFAULT_THRESHOLDS: HealthThresholds = {
+  minPageRatio: HEALTH_MIN_PAGE_RATIO,
+  shrinkPercent: HEALTH_SHRINK_PERCENT,
+  maxShrunkPagesPercent: HEALTH_MAX_SHRUNK_PAGES_PERCENT,
+  maxBoilerplateChunks: HEALTH_MAX_BOILERPLATE_CHUNKS,
+  requiredPages: REQUIRED_PAGES,
+};
+
+export interface HealthCheck {
+  name: string;
+  passed: boolean;
+  summary: string;
+  details: string[];
+}
+
+export interface HealthReport {
+  passed: boolean;
+  checks: HealthCheck[];
+}
+
+// Site chrome that only shows up when extraction grabbed more than the article
+const CHROME_PATTERN = /Powered by ReadMe|Did this page help you\?|Jump to Content|Updated \d+ (?:days?|months?|years?) ago/i;
+
+// Share of a chunk's text that is link text, above which it's navigation
+const MAX_LINK_DENSITY = 0.6;
+
+// The same text on this many pages is header/footer/sidebar, not docs
+const REPEATED_ON_PAGES = 3;
+
+function normalizeBody(content: string): string {
+  // Ignore the heading line, which differs when chrome is repeated per page
+  return content.replace(/^#{1,6} .*$/m, "").replace(/\s+/g, " ").trim();
+}
+
+function linkDensity(content: string): number {
+  const text = content.replace(/```[\s\S]*?```/g, "");
+  const linkText = [...text.matchAll(/\[([^\]]*)\]\([^)]*\)/g)].reduce((sum, m) => sum + m[1].length, 0);
+  const plain = text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[#>*`|\-\s]+/g, " ")
+    .trim();
+  return plain.length > 0 ? linkText / plain.length : 0;
+}
+
+/**
+ * Prose chunks that look like site chrome rather than documentation:
+ * ReadMe UI text, link-dense navigation, or text repeated across many pages.
+ */
+export function findBoilerplateChunks(chunks: DocChunk[]): Array<{ chunk: DocChunk; reason: string }> {
+  // Generated chunks (e.g. API endpoints) legitimately share text
+  chunks = chunks.filter((c) => c.kind !== "endpoint");
+
+  const pagesByBody = new Map<string, Set<string>>();
+  for (const chunk of chunks) {
+    const body = normalizeBody(chunk.content);
+    const paths = pagesByBody.get(body) ?? new Set();
+    paths.add(chunk.path);
+    pagesByBody.set(body, paths);
+  }
+
+  const flagged: Array<{ chunk: DocChunk; reason: string }> = [];
+  for (const chunk of chunks) {
+    const repeated = pagesByBody.get(normalizeBody(chunk.content))!.size;
+    if (CHROME_PATTERN.test(chunk.content)) {
+      flagged.push({ chunk, reason: "site chrome" });
+    } else if (linkDensity(chunk.content) > MAX_LINK_DENSITY) {
+      flagged.push({ chunk, reason: "mostly links" });
+    } else if (repeated >= REPEATED_ON_PAGES) {
+      flagged.push({ chunk, reason: `repeated on ${repeated} pages` });
+    }
+  }
+  return flagged;
+}
+
+function tokensByPath(entries: Array<{ path: string; tokenEstimate: number }>): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const entry of entries) {
+    totals.set(entry.path, (totals.get(entry.path) ?? 0) + entry.tokenEstimate);
+  }
+  return totals;
+}
+
+/**
+ * What a run fetched, for the page count check.
+ */
+export interface CrawlCounts {
+  // Pages fetched this run, without duplicates or pages kept from the
+  // cache after failing; recorded as the manifest's fetchedPages
+  fetched: CrawlResult[];
+  // Duplicates fetched this run and folded into their canonical page
+  folded: number;
+  failures: CrawlFailure[];
+}
+
+/**
+ * Compare this crawl against the previous manifest and sanity thresholds.
+ * The page count compares pages fetched with the previous crawl's
+ * fetchedPages. Manifests from before that was recorded only have
+ * totalPages, which counted duplicates too, so folded pages are added back
+ * for those. Without a previous crawl, the page count is checked against
+ * what this run tried to fetch; the other comparisons pass.
+ */
+export function checkCrawlHealth(
+  { fetched, folded, failures }: CrawlCounts,
+  chunks: DocChunk[],
+  previous: Manifest | null,
+  thresholds: HealthThresholds = DEFAULT_THRESHOLDS
+): HealthReport {
+  const checks: HealthCheck[] = [];
+
+  const legacy = previous !== null && previous.fetchedPages === undefined;
+  const count = fetched.length + (legacy ? folded : 0);
+  const expected = previous ? (previous.fetchedPages ?? previous.totalPages) : fetched.length + failures.length;
+  const minPages = Math.ceil(expected * thresholds.minPageRatio);
+  const fetchedPaths = new Set(fetched.map((p) => p.path));
+  const failed = new Set(failures.map((f) => f.path));
+  const lost = [...new Set(previous?.chunks.map((c) => c.path))]
+    .filter((path) => !fetchedPaths.has(path) && !failed.has(path))
+    .sort();
+  checks.push({
+    name: "Page count",
+    passed: count >= minPages,
+    summary:
+      `${count} pages fetched, ${failures.length} failed ` +
+      `(${previous ? "previous crawl" : "attempted"}: ${expected}, minimum: ${minPages})`,
+    details: [
+      ...failures.map((f) => `failed: ${f.path} (${f.status ?? "error"})`),
+      ...lost.map((path) => `no longer crawled: ${path}`),
+    ],
+  });
+
+  if (previous) {
+    const before = tokensByPath(previous.chunks);
+    const after = tokensByPath(chunks);
+    const shrunk: string[] = [];
+    let compared = 0;
+    for (const [path, oldTokens] of before) {
+      const newTokens = after.get(path);
+      if (newTokens === undefined) continue;
+      compared++;
+      const lostPercent = ((oldTokens - newTokens) / oldTokens) * 100;
+      if (lostPercent > thresholds.shrinkPercent) {
+        shrunk.push(`${path}: ${oldTokens} -> ${newTokens} tokens (-${Math.round(lostPercent)}%)`);
+      }
+    }
+    const shrunkPercent = compared > 0 ? (shrunk.length / compared) * 100 : 0;
+    checks.push({
+      name: "Shrinking pages",
+      passed: shrunkPercent <= thresholds.maxShrunkPagesPercent,
+      summary:
+        `${shrunk.length} of ${compared} pages lost more than ${thresholds.shrinkPercent}% of their tokens ` +
+        `(${shrunkPercent.toFixed(1)}%, maximum: ${thresholds.maxShrunkPagesPercent}%)`,
+      details: shrunk,
+    });
+  }
+
+  const boilerplate = findBoilerplateChunks(chunks);
+  checks.push({
+    name: "Boilerplate chunks",
+    passed: boilerplate.length <= thresholds.maxBoilerplateChunks,
+    summary: `${boilerplate.length} chunk(s) look like site chrome (maximum: ${thresholds.maxBoilerplateChunks})`,
+    details: boilerplate.map(({ chunk, reason }) => `${chunk.id}: ${reason}`),
+  });
+
+  const chunked = new Set(chunks.map((c) => c.path));
+  const missing = thresholds.requiredPages.filter((path) => !fetchedPaths.has(path) || !chunked.has(path));
+  checks.push({
+    name: "Required pages",
+    passed: missing.length === 0,
+    summary: `${thresholds.requiredPages.length - missing.length} of ${thresholds.requiredPages.length} present`,
+    details: missing.map((path) => `missing: ${path}`),
+  });
+
+  return { passed: checks.every((c) => c.passed), checks };
+}
+
+/**
+ * Render a health report for the console. Details are only listed for
+ * failed checks.
+ */
+export function formatHealthReport(report: HealthReport, maxDetails = 20): string {
+  const lines: string[] = [];
+  for (const check of report.checks) {
+    lines.push(`  [${check.passed ? "PASS" : "FAIL"}] ${check.name}: ${check.summary}`);
+    if (check.passed) continue;
+    for (const detail of check.details.slice(0, maxDetails)) {
+      lines.push(`      ${detail}`);
+    }
+    if (check.details.length > maxDetails) {
+      lines.push(`      ... and ${check.details.length - maxDetails} more`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,61 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { EMBEDDER, OUTPUT_DIR, SEARCH_INDEX_FILE } from "./config.ts";
+import { getEmbedder, type Embedder, type Vector } from "./embedder.ts";
+import { loadCorpus } from "./corpus.ts";
+import type { DocChunk } from "./chunk.ts";
+import { outputPaths } from "./site.ts";
+
+export interface SearchIndex {
+  generatedAt: string;
+  embedder: string;
+  state: unknown;
+  entries: Array<{ id: string; vector: Vector }>;
+}
+
+/**
+ * Text that gets embedded for a chunk: its breadcrumbs plus its content,
+ * so queries can match page titles and section headings.
+ */
+export function chunkSearchText(chunk: DocChunk): string {
+  return [...chunk.parentHeadings, chunk.heading, chunk.content].join("\n");
+}
+
+/**
+ * Embed every chunk into a search index.
+ */
+export async function buildSearchIndex(
+  chunks: DocChunk[],
+  embedder: Embedder<unknown> = getEmbedder(EMBEDDER)
+): Promise<SearchIndex> {
+  const texts = chunks.map(chunkSearchText);
+  const state = embedder.fit(texts);
+  const vectors = await embedder.embed(texts, state);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    embedder: embedder.name,
+    state,
+    entries: chunks.map((chunk, i) => ({ id: chunk.id, vector: vectors[i] })),
+  };
+}
+
+export function writeSearchIndex(index: SearchIndex, file = SEARCH_INDEX_FILE): void {
+  writeFileSync(file, JSON.stringify(index));
+}
+
+export function readSearchIndex(file = SEARCH_INDEX_FILE): SearchIndex | null {
+  if (!existsSync(file)) return null;
+  return JSON.parse(readFileSync(file, "utf-8")) as SearchIndex;
+}
+
+// Rebuild the index from the chunks already on disk, without crawling
+// CLI: bun run index:build [--dir <output dir>]
+if (import.meta.main) {
+  const dirIndex = process.argv.indexOf("--dir");
+  const dir = dirIndex >= 0 ? process.argv[dirIndex + 1] : OUTPUT_DIR;
+  const { searchIndexFile } = outputPaths(dir);
+  const { chunks } = loadCorpus(dir);
+  const index = await buildSearchIndex(chunks);
+  writeSearchIndex(index, searchIndexFile);
+  console.log(`Indexed ${index.entries.length} chunks with "${index.embedder}" -> ${searchIndexFile}`);
+}
@@ -1,98 +1,370 @@
-import { mkdirSync, writeFileSync, rmSync, existsSync } from "fs";
+import { mkdirSync, writeFileSync, readdirSync, rmSync, existsSync } from "fs";
 import { join } from "path";
-import { getAllSeedUrls, CHUNKS_DIR, MANIFEST_FILE, OUTPUT_DIR } from "./config.ts";
-import { crawlAll, type CrawlResult } from "./crawl.ts";
-import { chunkAll, type DocChunk } from "./chunk.ts";
+import { getAllSeedUrls } from "./config.ts";
+import { crawlAll, type CrawlOutcome } from "./crawl.ts";
+import { discoverPages, type DiscoveryReport } from "./discover.ts";
+import { chunkPage, findIdCollisions, legacyChunkId, type DocChunk } from "./chunk.ts";
+import { sanitizePage } from "./sanitize.ts";
+import { findDuplicatePages, type DuplicatePage } from "./dedupe.ts";
+import { buildLinkGraph, inboundLinkCounts, resolveLinks } from "./links.ts";
+import { annotateRedactions, buildRedactionRules, redactPage, summarizeRedactions } from "./redact.ts";
+import { buildSchemaDefinitions } from "./schema.ts";
+import { writeSnapshot } from "./snapshot.ts";
+import { collectApiSpecs, endpointChunks } from "./openapi.ts";
+import { buildExampleCatalog } from "./examples.ts";
+import { buildErrorCatalog } from "./errors.ts";
+import { readChunk, readManifest, type Manifest } from "./corpus.ts";
+import { buildSearchIndex, writeSearchIndex } from "./index-build.ts";
+import { getTokenizer } from "./tokenizer.ts";
+import { parseExportFlag, parseTagFilterFlags, runExporters } from "./export.ts";
+import { filterSlug, isEmptyFilter, tagChunks } from "./tags.ts";
+import { checkCrawlHealth, formatHealthReport, DEFAULT_THRESHOLDS } from "./health.ts";
+import { DEFAULT_SITE, loadSpiderConfig, outputPaths, type SiteConfig } from "./site.ts";
+import { emptyCache, hashContent, loadCache, saveCache } from "./cache.ts";
 
 const isDryRun = process.argv.includes("--dry-run");
+const isFullRebuild = process.argv.includes("--full");
+const skipDiscovery = process.argv.includes("--no-discover");
+const skipHealthCheck = process.argv.includes("--skip-health-check");
+const USAGE =
+  "Usage: bun run crawl [--dry-run] [--full] [--no-discover] [--skip-health-check] [--export <names>|all]\n" +
+  "                     [--api-version <v>] [--product <name>] [--audience <name>] [--config <file>] [--site <name>]";
+let exporters: string[];
+try {
+  exporters = parseExportFlag(process.argv);
+} catch (err) {
+  console.error(`${err instanceof Error ? err.message : err}\n\n${USAGE}`);
+  process.exit(1);
+}
+const exportFilter = parseTagFilterFlags(process.argv);
+const option = (name: string) => {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+};
+const configFile = option("--config");
+const onlySite = option("--site");
+
+/**
+ * Build the alias map: aliases from the previous manifest plus the legacy
+ * title-based ID of every current chunk. Where legacy IDs collided, the last
+ * chunk wins, matching the file that was actually left on disk. Aliases that
+ * shadow a current ID or point at a chunk that no longer exists are dropped.
+ */
+function buildAliases(
+  chunks: DocChunk[],
+  previous: Manifest | null,
+  duplicateOf: Record<string, string> = {}
+): Record<string, string> {
+  const aliases: Record<string, string> = { ...(previous?.aliases ?? {}) };
+  for (const chunk of chunks) {
+    const legacyId = legacyChunkId(chunk);
+    if (legacyId !== chunk.id) aliases[legacyId] = chunk.id;
+  }
+
+  // Chunks of pages that turned out to be duplicates go to the same part
+  // of the canonical page, or its top
+  for (const entry of previous?.chunks ?? []) {
+    const canonical = duplicateOf[entry.path];
+    if (!canonical) continue;
+    const prose = chunks.filter((c) => c.path === canonical && c.kind !== "endpoint");
+    const target = prose.find((c) => c.chunkIndex === entry.chunkIndex) ?? prose[0];
+    if (target) aliases[entry.id] = target.id;
+  }
 
-interface ManifestEntry {
-  id: string;
-  file: string;
-  url: string;
-  path: string;
-  section: string;
-  title: string;
-  heading: string;
-  parentHeadings: string[];
-  tokenEstimate: number;
-  chunkIndex: number;
-  totalChunks: number;
+  const currentIds = new Set(chunks.map((c) => c.id));
+  return Object.fromEntries(
+    Object.entries(aliases)
+      .filter(([from, to]) => !currentIds.has(from) && currentIds.has(to))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
 }
 
-interface Manifest {
-  generatedAt: string;
-  totalPages: number;
-  totalChunks: number;
-  totalTokenEstimate: number;
-  sections: string[];
-  chunks: ManifestEntry[];
+/**
+ * Read the chunks written for a page on a previous run.
+ * Returns null if any of them is missing, so the page gets re-chunked.
+ */
+function readPreviousChunks(ids: string[], dir: string): DocChunk[] | null {
+  const chunks: DocChunk[] = [];
+  for (const id of ids) {
+    const chunk = readChunk(id, dir);
+    if (!chunk) return null;
+    chunks.push(chunk);
+  }
+  return chunks;
 }
 
-async function main() {
-  console.log("=== Clever Dev Docs Spider ===\n");
+function reportDiscovery(discovery: DiscoveryReport): void {
+  if (discovery.staleSeeds.length > 0) {
+    console.log(`\n  Seed paths not found in sitemap or sidebar (${discovery.staleSeeds.length}):`);
+    for (const path of discovery.staleSeeds) {
+      console.log(`    - ${path}`);
+    }
+  }
+  if (discovery.missingFromSeeds.length > 0) {
+    console.log(`\n  Live pages missing from SEED_URLS (${discovery.missingFromSeeds.length}):`);
+    for (const page of discovery.missingFromSeeds) {
+      console.log(`    + [${page.section}] ${page.path}`);
+    }
+  }
+  console.log("");
+}
+
+function reportFailures(outcome: CrawlOutcome, preserved: string[]): void {
+  if (outcome.skipped.length > 0) {
+    console.log(`  Disallowed by robots.txt (${outcome.skipped.length}):`);
+    for (const path of outcome.skipped) {
+      console.log(`    - ${path}`);
+    }
+  }
+  if (outcome.failures.length > 0) {
+    console.log(`  Failed to fetch (${outcome.failures.length}, ${preserved.length} kept from the last good crawl):`);
+    for (const failure of outcome.failures) {
+      const kept = preserved.includes(failure.path) ? " (kept)" : "";
+      console.log(`    ! [${failure.status ?? "ERROR"}] ${failure.path} after ${failure.attempts} attempt(s)${kept}`);
+    }
+  }
+  console.log("");
+}
+
+function reportDuplicates(duplicates: DuplicatePage[]): void {
+  if (duplicates.length === 0) return;
+  console.log(`Folded ${duplicates.length} duplicate page(s) into their canonical page:`);
+  for (const d of duplicates) {
+    const similarity = d.similarity === null ? "" : `, ${Math.round(d.similarity * 100)}% similar`;
+    console.log(`  ${d.path} -> ${d.duplicateOf} (${d.reason}${similarity})`);
+  }
+  console.log("");
+}
+
+/**
+ * Crawl one site into its output directory. Returns false if the run was
+ * refused (nothing crawled, ID collisions or a failed health check), in
+ * which case nothing was written.
+ */
+async function crawlSite(site: SiteConfig): Promise<boolean> {
+  const paths = outputPaths(site.outputDir);
+  console.log(`--- ${site.title} (${site.baseUrl}) -> ${paths.outputDir}/ ---\n`);
 
-  const seeds = getAllSeedUrls();
+  const seeds = getAllSeedUrls(site.seeds);
   console.log(`Seed URLs: ${seeds.length} pages across ${new Set(seeds.map((s) => s.section)).size} sections\n`);
 
+  // Phase 0: Discover pages from sitemap.xml and the sidebar navigation
+  let discovery: DiscoveryReport | null = null;
+  if (!skipDiscovery) {
+    console.log("Phase 0: Discovering pages...\n");
+    discovery = await discoverPages(seeds, site);
+    reportDiscovery(discovery);
+  }
+  const toCrawl = discovery?.pages ?? seeds;
+
   if (isDryRun) {
     console.log("DRY RUN - listing pages that would be crawled:\n");
-    for (const seed of seeds) {
-      console.log(`  [${seed.section}] ${seed.path}`);
+    for (const page of toCrawl) {
+      console.log(`  [${page.section}] ${page.path}`);
     }
-    console.log(`\nTotal: ${seeds.length} pages`);
-    return;
+    console.log(`\nTotal: ${toCrawl.length} pages\n`);
+    return true;
+  }
+
+  // A full rebuild still keeps the cache around to fall back on for pages
+  // that fail to fetch
+  const cache = loadCache(paths.cacheFile);
+  if (isFullRebuild) {
+    console.log("Full rebuild requested: ignoring crawl cache.\n");
+  } else {
+    console.log(`Crawl cache: ${Object.keys(cache.pages).length} pages\n`);
   }
 
   // Phase 1: Crawl
   console.log("Phase 1: Crawling pages...\n");
-  const pages = await crawlAll(seeds);
-  console.log(`\nCrawled ${pages.length} pages successfully.\n`);
+  const outcome = await crawlAll(toCrawl, isFullRebuild ? undefined : cache, { site });
+  const crawled = outcome.results;
+  console.log(`\nCrawled ${crawled.length} pages successfully.\n`);
 
-  if (pages.length === 0) {
-    console.error("No pages crawled. Exiting.");
-    process.exit(1);
+  // Keep the last good copy of pages that failed this time
+  const preserved: string[] = [];
+  for (const failure of outcome.failures) {
+    const previous = cache.pages[failure.path];
+    if (previous) {
+      crawled.push({ ...previous.page, section: failure.section });
+      preserved.push(failure.path);
+    }
+  }
+  reportFailures(outcome, preserved);
+
+  if (crawled.length === 0) {
+    console.error("No pages crawled. Skipping this site.\n");
+    return false;
   }
 
-  // Phase 2: Chunk
-  console.log("Phase 2: Chunking content...\n");
-  const allChunks = chunkAll(pages);
+  // Phase 2: Clean up ReadMe rendering artifacts, redact secrets/PII and
+  // fold pages reachable under several paths into one
+  console.log("Phase 2: Sanitizing, redacting and deduplicating content...\n");
+  const redactionRules = buildRedactionRules(site.redactions);
+  const allPages = crawled.map((page) => redactPage(sanitizePage(page), redactionRules));
+  const duplicates = findDuplicatePages(allPages);
+  const duplicateOf = Object.fromEntries(duplicates.map((d) => [d.path, d.duplicateOf]));
+  const pages = allPages.filter((p) => !duplicateOf[p.path]);
+  reportDuplicates(duplicates);
+
+  // Phase 3: Chunk (reusing previous chunks for unchanged pages)
+  console.log("Phase 3: Chunking content...\n");
 
   // Filter out chunks that are too small to be useful (likely JS-rendered pages)
   const MIN_USEFUL_TOKENS = 30;
-  const chunks = allChunks.filter((c) => c.tokenEstimate >= MIN_USEFUL_TOKENS);
-  const filtered = allChunks.length - chunks.length;
-  console.log(`Generated ${allChunks.length} chunks, kept ${chunks.length} (filtered ${filtered} tiny chunks).\n`);
+  const nextCache = emptyCache();
+  let chunks: DocChunk[] = [];
+  let generated = 0;
+  let filtered = 0;
+  let reusedPages = 0;
+
+  for (const page of pages) {
+    const contentHash = hashContent(page.markdown);
+    const previous = cache.pages[page.path];
+
+    // Duplicates are cached without chunks, so check there are some to reuse
+    let pageChunks =
+      !isFullRebuild &&
+      previous &&
+      previous.chunkIds.length > 0 &&
+      previous.contentHash === contentHash &&
+      previous.page.section === page.section
+        ? readPreviousChunks(previous.chunkIds, paths.chunksDir)
+        : null;
+
+    if (pageChunks) {
+      reusedPages++;
+    } else {
+      const allPageChunks = chunkPage(page);
+      // A short answer to a question is still useful on its own
+      pageChunks = annotateRedactions(
+        allPageChunks.filter((c) => c.tokenEstimate >= MIN_USEFUL_TOKENS || c.kind === "faq"),
+        redactionRules
+      );
+      generated += allPageChunks.length;
+      filtered += allPageChunks.length - pageChunks.length;
+    }
+
+    chunks.push(...pageChunks);
+    nextCache.pages[page.path] = {
+      contentHash,
+      chunkIds: pageChunks.map((c) => c.id),
+      page,
+    };
+  }
+
+  // Duplicates keep their validators for the next run, but no chunks
+  for (const page of allPages) {
+    if (duplicateOf[page.path]) {
+      nextCache.pages[page.path] = { contentHash: hashContent(page.markdown), chunkIds: [], page };
+    }
+  }
+
+  // One chunk per endpoint of each API definition found on the pages
+  const apiSpecs = collectApiSpecs(pages);
+  const endpoints = annotateRedactions(apiSpecs.flatMap(endpointChunks), redactionRules);
+  chunks.push(...endpoints);
+
+  // Resolve internal links now that every chunk ID is known
+  chunks = resolveLinks(chunks, site, duplicateOf);
+
+  // Tag what each chunk is specific to. Reused chunks are re-tagged too,
+  // in case the rules changed.
+  chunks = tagChunks(chunks, site.tags);
+  const tagged = chunks.filter((c) => c.apiVersions || c.products || c.audience).length;
 
-  // Phase 3: Write output
-  console.log("Phase 3: Writing output...\n");
+  console.log(`Reused chunks for ${reusedPages} unchanged page(s).`);
+  console.log(`Generated ${generated} chunks, kept ${generated - filtered} (filtered ${filtered} tiny chunks).`);
+  console.log(`Generated ${endpoints.length} endpoint chunks from ${apiSpecs.length} API definition(s).`);
+  const faqChunks = chunks.filter((c) => c.kind === "faq");
+  console.log(
+    `Chunked ${new Set(faqChunks.map((c) => c.path)).size} FAQ-style page(s) into ${faqChunks.length} question/answer chunks.`
+  );
+  console.log(`Tagged ${tagged} chunks with API versions, products or audiences.\n`);
 
-  // Clean and recreate output directories
-  if (existsSync(CHUNKS_DIR)) {
-    rmSync(CHUNKS_DIR, { recursive: true });
+  const redactions = summarizeRedactions(chunks);
+  if (redactions.length > 0) {
+    console.log("Redactions:");
+    for (const r of redactions) {
+      console.log(`  ${r.rule} (${r.category}): ${r.count} in ${r.chunks} chunk(s) on ${r.pages} page(s)`);
+    }
+    console.log("");
+  }
+
+  // Refuse to write anything if two chunks would share a file
+  const collisions = findIdCollisions(chunks);
+  if (collisions.length > 0) {
+    console.error(`Chunk ID collisions detected (${collisions.length}):`);
+    for (const collision of collisions) {
+      console.error(`  ${collision.id}: ${collision.paths.join(", ")}`);
+    }
+    return false;
+  }
+
+  const previousManifest = readManifest(paths.manifestFile);
+
+  // Phase 4: Refuse to overwrite docs/ with a degraded crawl
+  console.log("Phase 4: Checking crawl health...\n");
+  // Judge the pages fetched this run, not the ones kept from the cache
+  const fetched = pages.filter((p) => !preserved.includes(p.path));
+  const folded = allPages.filter((p) => duplicateOf[p.path] && !preserved.includes(p.path)).length;
+  const health = checkCrawlHealth({ fetched, folded, failures: outcome.failures }, chunks, previousManifest, {
+    ...DEFAULT_THRESHOLDS,
+    requiredPages: site.requiredPages.map((path) => duplicateOf[path] ?? path),
+  });
+  console.log(formatHealthReport(health) + "\n");
+  if (!health.passed) {
+    if (!skipHealthCheck) {
+      console.error(
+        `Crawl health check failed; ${paths.outputDir}/ was not modified. Re-run with --skip-health-check to publish anyway.\n`
+      );
+      return false;
+    }
+    console.log("Health check failed, but --skip-health-check was given. Writing output anyway.\n");
   }
-  mkdirSync(CHUNKS_DIR, { recursive: true });
 
-  // Write individual chunk files
+  // Phase 5: Write output
+  console.log("Phase 5: Writing output...\n");
+
+  mkdirSync(paths.chunksDir, { recursive: true });
+
+  // Write individual chunk files. Reused chunks serialize byte-for-byte
+  // identical to what is already on disk.
   for (const chunk of chunks) {
-    const filePath = join(CHUNKS_DIR, `${chunk.id}.json`);
+    const filePath = join(paths.chunksDir, `${chunk.id}.json`);
     writeFileSync(filePath, JSON.stringify(chunk, null, 2));
   }
 
+  // Remove chunk files left over from pages that changed or disappeared
+  const currentFiles = new Set(chunks.map((c) => `${c.id}.json`));
+  for (const file of readdirSync(paths.chunksDir)) {
+    if (!currentFiles.has(file)) {
+      rmSync(join(paths.chunksDir, file));
+    }
+  }
+
   // Build and write manifest
   const sections = [...new Set(pages.map((p) => p.section))].sort();
   const totalTokenEstimate = chunks.reduce((sum, c) => sum + c.tokenEstimate, 0);
+  const inboundLinks = inboundLinkCounts(chunks);
+  const aliasesByPath = new Map<string, string[]>();
+  for (const d of duplicates) {
+    aliasesByPath.set(d.duplicateOf, [...(aliasesByPath.get(d.duplicateOf) ?? []), d.path]);
+  }
 
   const manifest: Manifest = {
     generatedAt: new Date().toISOString(),
     totalPages: pages.length,
+    fetchedPages: fetched.length,
     totalChunks: chunks.length,
     totalTokenEstimate,
+    tokenizer: getTokenizer().name,
     sections,
     chunks: chunks.map((c) => ({
       id: c.id,
       file: `chunks/${c.id}.json`,
       url: c.url,
+      anchorUrl: c.anchorUrl,
       path: c.path,
       section: c.section,
       title: c.title,
@@ -101,20 +373,159 @@ async function main() {
       tokenEstimate: c.tokenEstimate,
       chunkIndex: c.chunkIndex,
       totalChunks: c.totalChunks,
+      ...(c.kind && { kind: c.kind }),
+      inboundLinks: inboundLinks.get(c.id) ?? 0,
+      ...(aliasesByPath.has(c.path) && { aliases: aliasesByPath.get(c.path) }),
+      ...(c.apiVersions && { apiVersions: c.apiVersions }),
+      ...(c.products && { products: c.products }),
+      ...(c.audience && { audience: c.audience }),
     })),
+    aliases: buildAliases(chunks, previousManifest, duplicateOf),
+    duplicateOf,
   };
 
-  writeFileSync(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  writeFileSync(paths.manifestFile, JSON.stringify(manifest, null, 2));
+
+  // Keep a dated copy of this corpus; unchanged chunks share stored objects
+  const snapshot = writeSnapshot(manifest, chunks, paths.snapshotsDir);
+
+  // Write data-model field definitions, one file per object
+  const schemas = buildSchemaDefinitions(pages);
+  if (existsSync(paths.schemasDir)) {
+    rmSync(paths.schemasDir, { recursive: true });
+  }
+  mkdirSync(paths.schemasDir, { recursive: true });
+  for (const schema of schemas) {
+    writeFileSync(join(paths.schemasDir, `${schema.object}.json`), JSON.stringify(schema, null, 2));
+  }
+
+  // Write the API definitions behind the reference pages, one file per API
+  if (existsSync(paths.openapiDir)) {
+    rmSync(paths.openapiDir, { recursive: true });
+  }
+  if (apiSpecs.length > 0) {
+    mkdirSync(paths.openapiDir, { recursive: true });
+    for (const apiSpec of apiSpecs) {
+      writeFileSync(join(paths.openapiDir, `${apiSpec.name}.json`), JSON.stringify(apiSpec.spec, null, 2));
+    }
+  }
+
+  // Write every code sample with the endpoint it shows, plus an index by endpoint
+  const { catalog: exampleCatalog, examples } = buildExampleCatalog(pages, chunks, manifest.generatedAt);
+  if (existsSync(paths.examplesDir)) {
+    rmSync(paths.examplesDir, { recursive: true });
+  }
+  mkdirSync(paths.examplesDir, { recursive: true });
+  for (const example of examples) {
+    writeFileSync(join(paths.examplesDir, `${example.id}.json`), JSON.stringify(example, null, 2));
+  }
+  writeFileSync(join(paths.examplesDir, "index.json"), JSON.stringify(exampleCatalog, null, 2));
+  const invalidJson = examples.filter((e) => e.validJson === false);
+
+  // Write the errors listed on the error reference pages, for explain-error
+  const errorCatalog = buildErrorCatalog(pages, chunks, manifest.generatedAt);
+  writeFileSync(paths.errorsFile, JSON.stringify(errorCatalog, null, 2));
+
+  const graph = buildLinkGraph(chunks, manifest.generatedAt);
+  writeFileSync(paths.graphFile, JSON.stringify(graph, null, 2));
+
+  if (discovery && discovery.navigation.length > 0) {
+    writeFileSync(paths.navigationFile, JSON.stringify(discovery.navigation, null, 2));
+  }
+
+  writeFileSync(
+    paths.crawlReportFile,
+    JSON.stringify(
+      {
+        generatedAt: manifest.generatedAt,
+        failures: outcome.failures,
+        preserved,
+        skipped: outcome.skipped,
+        duplicates,
+        redactions,
+      },
+      null,
+      2
+    )
+  );
+
+  saveCache(nextCache, paths.cacheFile);
+
+  // Phase 6: Build the search index over the final chunk set
+  console.log("Phase 6: Building search index...\n");
+  const searchIndex = await buildSearchIndex(chunks);
+  writeSearchIndex(searchIndex, paths.searchIndexFile);
+
+  // Phase 7: Optional exports selected with --export, filtered by
+  // --api-version/--product/--audience
+  let exported: string[] = [];
+  if (exporters.length > 0) {
+    const filtered = isEmptyFilter(exportFilter) ? "" : ` filtered to ${filterSlug(exportFilter)}`;
+    console.log(`Phase 7: Exporting (${exporters.join(", ")})${filtered}...\n`);
+    exported = runExporters(exporters, { site, pages, chunks, filter: exportFilter });
+  }
 
   // Summary
   console.log("=== Done! ===\n");
-  console.log(`  Pages crawled:      ${pages.length}`);
+  console.log(`  Pages crawled:      ${allPages.length}`);
+  console.log(`  Pages unchanged:    ${reusedPages}`);
+  console.log(`  Duplicate pages:    ${duplicates.length}`);
+  console.log(`  Pages failed:       ${outcome.failures.length} (${preserved.length} kept from cache)`);
   console.log(`  Chunks generated:   ${chunks.length}`);
-  console.log(`  Est. total tokens:  ${totalTokenEstimate.toLocaleString()}`);
+  console.log(`  Schemas extracted:  ${schemas.length}`);
+  console.log(`  API definitions:    ${apiSpecs.length} (${endpoints.length} endpoints)`);
+  console.log(
+    `  Code examples:      ${examples.length} (${Object.keys(exampleCatalog.endpoints).length} endpoints, ${invalidJson.length} invalid JSON)`
+  );
+  console.log(
+    `  Error codes:        ${errorCatalog.errors.length} (from ${new Set(errorCatalog.errors.map((e) => e.path)).size} page(s))`
+  );
+  console.log(`  Internal links:     ${graph.edges.length} (${graph.broken.length} broken, ${graph.orphans.length} orphaned pages)`);
+  console.log(`  Values redacted:    ${redactions.reduce((sum, r) => sum + r.count, 0)}`);
+  console.log(`  Total tokens:       ${totalTokenEstimate.toLocaleString()} (${getTokenizer().name})`);
   console.log(`  Sections:           ${sections.join(", ")}`);
-  console.log(`\n  Output: ${OUTPUT_DIR}/`);
-  console.log(`  Manifest: ${MANIFEST_FILE}`);
-  console.log(`  Chunks: ${CHUNKS_DIR}/`);
+  console.log(`\n  Output: ${paths.outputDir}/`);
+  console.log(`  Manifest: ${paths.manifestFile}`);
+  console.log(`  Chunks: ${paths.chunksDir}/`);
+  console.log(`  Schemas: ${paths.schemasDir}/`);
+  if (apiSpecs.length > 0) console.log(`  OpenAPI: ${paths.openapiDir}/`);
+  console.log(`  Examples: ${paths.examplesDir}/`);
+  console.log(`  Errors: ${paths.errorsFile}`);
+  console.log(`  Link graph: ${paths.graphFile}`);
+  console.log(
+    snapshot
+      ? `  Snapshot: ${paths.snapshotsDir}/${snapshot.snapshot.id}.json (${snapshot.newObjects} new chunk object(s))`
+      : `  Snapshot: unchanged since the latest one in ${paths.snapshotsDir}/`
+  );
+  if (discovery) console.log(`  Navigation: ${paths.navigationFile}`);
+  console.log(`  Search index: ${paths.searchIndexFile} (${searchIndex.embedder})`);
+  console.log(`  Cache: ${paths.cacheFile}`);
+  console.log(`  Crawl report: ${paths.crawlReportFile}`);
+  if (exported.length > 0) {
+    console.log(`  Exports: ${exported.length} file(s) (${exporters.join(", ")})`);
+  }
+  console.log("");
+  return true;
+}
+
+async function main() {
+  console.log("=== Clever Dev Docs Spider ===\n");
+
+  const config = configFile ? await loadSpiderConfig(configFile) : { sites: [DEFAULT_SITE] };
+  const sites = onlySite ? config.sites.filter((s) => s.name === onlySite) : config.sites;
+  if (sites.length === 0) {
+    throw new Error(`No site named "${onlySite}". Available: ${config.sites.map((s) => s.name).join(", ")}`);
+  }
+
+  const failed: string[] = [];
+  for (const site of sites) {
+    if (!(await crawlSite(site))) failed.push(site.name);
+  }
+
+  if (failed.length > 0) {
+    console.error(`Failed site(s): ${failed.join(", ")}`);
+    process.exit(1);
+  }
 }
 
 main().catch((err) => {
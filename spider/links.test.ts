@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import type { DocChunk } from "./chunk.ts";
+import { buildLinkGraph, extractLinks, inboundLinkCounts, resolveLinks } from "./links.ts";
+import { FIXTURE_BASE_URL, fixtureSite } from "./__fixtures__/fixtures.ts";
+
+function chunk(id: string, path: string, heading: string, content: string, chunkIndex = 0, anchors?: string[]): DocChunk {
+  return {
+    id,
+    url: `${FIXTURE_BASE_URL}${path}`,
+    anchorUrl: `${FIXTURE_BASE_URL}${path}`,
+    path,
+    section: "Fixtures",
+    title: "Page",
+    heading,
+    headingLevel: 2,
+    parentHeadings: ["Page", heading],
+    content,
+    tokenEstimate: 10,
+    crawledAt: "<crawledAt>",
+    fetchMethod: "static",
+    chunkIndex,
+    totalChunks: 3,
+    ...(anchors && { anchors }),
+  };
+}
+
+const chunks = [
+  chunk(
+    "courses-00",
+    "/docs/courses",
+    "Courses",
+    "## Courses\n\nSee [Sections](/docs/sections) and the [schema](#schema).\n\n```md\n[not a link](/docs/users)\n```",
+    0,
+    ["courses"]
+  ),
+  chunk(
+    "courses-01",
+    "/docs/courses",
+    "Fields",
+    "## Fields\n\nText.\n\n### Schema\n\n![diagram](/docs/diagram.png) See [the sections schema](https://docs.fixture.test/docs/sections#fields).",
+    1,
+    ["fields", "schema"]
+  ),
+  chunk("courses-02", "/docs/courses", "Fields", "## Fields\n\nMore fields.", 2, ["fields-1"]),
+  chunk(
+    "sections-00",
+    "/docs/sections",
+    "Sections",
+    "## Sections\n\nBack to [courses](../docs/courses) or [gone](/docs/removed#x).",
+    0,
+    ["sections"]
+  ),
+  chunk(
+    "sections-01",
+    "/docs/sections",
+    "Fields",
+    "## Fields\n\nSee [old anchor](/docs/courses#renamed) and [more fields](/docs/courses#fields-1).",
+    1,
+    ["fields"]
+  ),
+  chunk("lonely-00", "/docs/lonely", "Lonely", "## Lonely\n\n[Elsewhere](https://example.com/docs/courses)"),
+];
+
+describe("extractLinks", () => {
+  test("skips images and links inside code blocks", () => {
+    expect(extractLinks(chunks[0].content)).toEqual([
+      { text: "Sections", href: "/docs/sections" },
+      { text: "schema", href: "#schema" },
+    ]);
+    expect(extractLinks(chunks[1].content).map((l) => l.text)).toEqual(["the sections schema"]);
+  });
+});
+
+describe("resolveLinks", () => {
+  const resolved = new Map(resolveLinks(chunks, fixtureSite()).map((c) => [c.id, c]));
+
+  test("resolves pages to their first chunk and anchors to the chunk holding the heading", () => {
+    expect(resolved.get("courses-00")!.links).toEqual([
+      { text: "Sections", path: "/docs/sections", target: "sections-00" },
+      { text: "schema", path: "/docs/courses", anchor: "schema", target: "courses-01" },
+    ]);
+    expect(resolved.get("courses-01")!.links![0].target).toBe("sections-01");
+    expect(resolved.get("sections-01")!.links![1].target).toBe("courses-02");
+  });
+
+  test("falls back to the top of the page for unknown anchors, and null for uncrawled pages", () => {
+    expect(resolved.get("sections-01")!.links![0]).toEqual({
+      text: "old anchor",
+      path: "/docs/courses",
+      anchor: "renamed",
+      target: "courses-00",
+      brokenAnchor: true,
+    });
+    expect(resolved.get("sections-00")!.links).toEqual([
+      { text: "courses", path: "/docs/courses", target: "courses-00" },
+      { text: "gone", path: "/docs/removed", anchor: "x", target: null },
+    ]);
+  });
+
+  test("ignores links off the site and recomputes stale links", () => {
+    expect(resolved.get("lonely-00")!.links).toBeUndefined();
+    const stale = { ...chunks[5], links: [{ text: "x", path: "/docs/x", target: null }] };
+    expect(resolveLinks([stale], fixtureSite())[0].links).toBeUndefined();
+  });
+
+  test("counts inbound links from other chunks", () => {
+    const counts = inboundLinkCounts([...resolved.values()]);
+    expect(Object.fromEntries(counts)).toEqual({
+      "courses-00": 2,
+      "courses-01": 1,
+      "courses-02": 1,
+      "sections-00": 1,
+      "sections-01": 1,
+      "lonely-00": 0,
+    });
+  });
+});
+
+describe("buildLinkGraph", () => {
+  test("lists edges, broken links and orphaned pages", () => {
+    const graph = buildLinkGraph(resolveLinks(chunks, fixtureSite()), "<generatedAt>");
+    expect(graph.edges).toHaveLength(6);
+    expect(graph.broken).toEqual([
+      { from: "sections-00", path: "/docs/removed", anchor: "x" },
+      { from: "sections-01", path: "/docs/courses", anchor: "renamed" },
+    ]);
+    expect(graph.orphans).toEqual(["/docs/lonely"]);
+    expect(graph.nodes.find((n) => n.id === "courses-00")).toEqual({
+      id: "courses-00",
+      path: "/docs/courses",
+      heading: "Courses",
+      inbound: 2,
+      outbound: 2,
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import type { DocChunk } from "./chunk.ts";
+import { toSitePath, type SiteConfig } from "./site.ts";
+
+export interface ChunkLink {
+  text: string;
+  // Page path on the site, and the fragment if the link had one
+  path: string;
+  anchor?: string;
+  // Chunk ID the link points at, or null if no crawled page matches
+  target: string | null;
+  // The anchor matched no heading on the page, so the link points at its top
+  brokenAnchor?: boolean;
+}
+
+export interface LinkGraph {
+  generatedAt: string;
+  nodes: Array<{ id: string; path: string; heading: string; inbound: number; outbound: number }>;
+  edges: Array<{ from: string; to: string }>;
+  broken: Array<{ from: string; path: string; anchor?: string }>;
+  // Pages no other page links to
+  orphans: string[];
+}
+
+// Markdown links, but not images
+const LINK_PATTERN = /(?<!!)\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+
+/**
+ * Markdown links in a chunk, outside code blocks.
+ */
+export function extractLinks(content: string): Array<{ text: string; href: string }> {
+  const prose = content.replace(/^(```|~~~)[\s\S]*?^\1/gm, "");
+  return [...prose.matchAll(LINK_PATTERN)].map((m) => ({ text: m[1].trim(), href: m[2] }));
+}
+
+function decodeAnchor(fragment: string): string | undefined {
+  try {
+    return decodeURIComponent(fragment) || undefined;
+  } catch {
+    return fragment;
+  }
+}
+
+/**
+ * Every heading anchor that lands in a chunk: its own heading plus any
+ * smaller sections that were merged into it. Chunks written before
+ * chunking recorded them only have the anchor they link to.
+ */
+function chunkAnchors(chunk: DocChunk): string[] {
+  if (chunk.anchors) return chunk.anchors;
+  const hash = chunk.anchorUrl.indexOf("#");
+  return hash >= 0 ? [chunk.anchorUrl.slice(hash + 1)] : [];
+}
+
+/**
+ * Attach resolved internal links to every chunk. Links go to the chunk
+ * holding the linked heading, or to the top of the page when the link has
+ * no anchor (or one that no longer exists, which marks it broken). Links to duplicate pages go to
+ * their canonical page; links to in-scope pages that weren't crawled keep
+ * a null target. Existing links are recomputed, so reused chunks pick up
+ * targets that changed.
+ */
+export function resolveLinks(
+  chunks: DocChunk[],
+  site: SiteConfig,
+  duplicateOf: Record<string, string> = {}
+): DocChunk[] {
+  const byPath = new Map<string, { first: string; anchors: Map<string, string> }>();
+  for (const chunk of [...chunks].sort((a, b) => a.chunkIndex - b.chunkIndex)) {
+    if (chunk.kind === "endpoint") continue;
+    const page = byPath.get(chunk.path) ?? { first: chunk.id, anchors: new Map() };
+    for (const anchor of chunkAnchors(chunk)) {
+      if (anchor && !page.anchors.has(anchor)) page.anchors.set(anchor, chunk.id);
+    }
+    byPath.set(chunk.path, page);
+  }
+
+  return chunks.map(({ links: _, ...chunk }) => {
+    const links: ChunkLink[] = [];
+    const seen = new Set<string>();
+    for (const { text, href } of extractLinks(chunk.content)) {
+      const path = toSitePath(site, href, chunk.url);
+      if (!path) continue;
+
+      const hash = href.indexOf("#");
+      const anchor = hash >= 0 ? decodeAnchor(href.slice(hash + 1)) : undefined;
+      const key = `${path}#${anchor ?? ""}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const page = byPath.get(duplicateOf[path] ?? path);
+      const anchorTarget = anchor ? page?.anchors.get(anchor) : undefined;
+      const target = page ? (anchorTarget ?? page.first) : null;
+      const brokenAnchor = Boolean(page && anchor && !anchorTarget);
+      links.push({ text, path, ...(anchor && { anchor }), target, ...(brokenAnchor && { brokenAnchor }) });
+    }
+    return links.length > 0 ? { ...chunk, links } : chunk;
+  });
+}
+
+/**
+ * How many other chunks link to each chunk.
+ */
+export function inboundLinkCounts(chunks: DocChunk[]): Map<string, number> {
+  const counts = new Map<string, number>(chunks.map((c) => [c.id, 0]));
+  for (const chunk of chunks) {
+    const targets = new Set((chunk.links ?? []).map((l) => l.target));
+    for (const target of targets) {
+      if (target && target !== chunk.id && counts.has(target)) {
+        counts.set(target, counts.get(target)! + 1);
+      }
+    }
+  }
+  return counts;
+}
+
+/**
+ * The internal link graph of a crawl, with broken links and orphaned pages.
+ */
+export function buildLinkGraph(chunks: DocChunk[], generatedAt: string): LinkGraph {
+  const inbound = inboundLinkCounts(chunks);
+  const pathOf = new Map(chunks.map((c) => [c.id, c.path]));
+  const edges: LinkGraph["edges"] = [];
+  const broken: LinkGraph["broken"] = [];
+  const linkedPaths = new Set<string>();
+
+  for (const chunk of chunks) {
+    const targets = new Set<string>();
+    for (const link of chunk.links ?? []) {
+      if (link.target === null || link.brokenAnchor) {
+        broken.push({ from: chunk.id, path: link.path, ...(link.anchor && { anchor: link.anchor }) });
+      }
+      if (link.target === null) continue;
+      if (link.target === chunk.id || targets.has(link.target)) continue;
+      targets.add(link.target);
+      edges.push({ from: chunk.id, to: link.target });
+      if (pathOf.get(link.target) !== chunk.path) linkedPaths.add(pathOf.get(link.target)!);
+    }
+  }
+
+  const pages = [...new Set(chunks.filter((c) => c.kind !== "endpoint").map((c) => c.path))];
+  return {
+    generatedAt,
+    nodes: chunks.map((c) => ({
+      id: c.id,
+      path: c.path,
+      heading: c.heading,
+      inbound: inbound.get(c.id) ?? 0,
+      outbound: new Set((c.links ?? []).map((l) => l.target).filter((t) => t && t !== c.id)).size,
+    })),
+    edges,
+    broken,
+    orphans: pages.filter((path) => !linkedPaths.has(path)).sort(),
+  };
+}
@@ -0,0 +1,201 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+import { loadCorpus, type Manifest } from "./corpus.ts";
+import { headingAnchor, pageContent, type DocChunk } from "./chunk.ts";
+import { buildSearchIndex, readSearchIndex, type SearchIndex } from "./index-build.ts";
+import { search } from "./search.ts";
+import { OUTPUT_DIR } from "./config.ts";
+import { outputPaths } from "./site.ts";
+
+export interface Corpus {
+  manifest: Manifest;
+  chunks: DocChunk[];
+  byId: Map<string, DocChunk>;
+  index: SearchIndex;
+}
+
+/**
+ * Load the published docs, or another output directory's. Builds the
+ * search index in memory if it hasn't been written yet.
+ */
+export async function openCorpus(dir = OUTPUT_DIR): Promise<Corpus> {
+  const { manifest, chunks } = loadCorpus(dir);
+  const index = readSearchIndex(outputPaths(dir).searchIndexFile) ?? (await buildSearchIndex(chunks));
+  return { manifest, chunks, byId: new Map(chunks.map((c) => [c.id, c])), index };
+}
+
+/**
+ * Deep link to the heading a chunk starts at, for citations.
+ */
+export function citationUrl(chunk: DocChunk): string {
+  // Chunks written before anchorUrl existed
+  if (chunk.anchorUrl) return chunk.anchorUrl;
+  if (!chunk.heading || chunk.heading === chunk.title) return chunk.url;
+  return `${chunk.url}#${headingAnchor(chunk.heading)}`;
+}
+
+function formatChunk(chunk: DocChunk): string {
+  // Referenced chunks, so a client can fetch them with get_chunk
+  const linked = [...new Set((chunk.links ?? []).map((l) => l.target).filter((t) => t && t !== chunk.id))];
+  return [
+    `## ${chunk.parentHeadings.join(" > ")}`,
+    `ID: ${chunk.id} (chunk ${chunk.chunkIndex + 1} of ${chunk.totalChunks})`,
+    `Source: ${citationUrl(chunk)}`,
+    ...(linked.length > 0 ? [`Links to: ${linked.join(", ")}`] : []),
+    "",
+    chunk.content,
+  ].join("\n");
+}
+
+/**
+ * Look up a chunk by ID, following aliases for outdated IDs.
+ */
+export function getChunk(corpus: Corpus, id: string): DocChunk | null {
+  return corpus.byId.get(id) ?? corpus.byId.get(corpus.manifest.aliases?.[id] ?? "") ?? null;
+}
+
+/**
+ * Reassemble a page from its prose chunks, in chunk order.
+ */
+export function getPage(corpus: Corpus, path: string): DocChunk[] {
+  const normalized = path.startsWith("/") ? path : `/docs/${path}`;
+  return corpus.chunks
+    .filter((c) => c.path === normalized && c.kind !== "endpoint")
+    .sort((a, b) => a.chunkIndex - b.chunkIndex);
+}
+
+/**
+ * Sections with the pages they contain.
+ */
+export function listSections(corpus: Corpus): Array<{ section: string; pages: Array<{ title: string; path: string; url: string }> }> {
+  return corpus.manifest.sections.map((section) => {
+    const pages = new Map<string, { title: string; path: string; url: string }>();
+    for (const entry of corpus.manifest.chunks) {
+      if (entry.section === section && !pages.has(entry.path)) {
+        pages.set(entry.path, { title: entry.title, path: entry.path, url: entry.url });
+      }
+    }
+    return { section, pages: [...pages.values()] };
+  });
+}
+
+function text(body: string) {
+  return { content: [{ type: "text" as const, text: body }] };
+}
+
+function notFound(message: string) {
+  return { ...text(message), isError: true };
+}
+
+export function createServer(corpus: Corpus): McpServer {
+  const server = new McpServer({ name: "clever-dev-docs", version: "1.0.0" });
+
+  server.registerTool(
+    "search_docs",
+    {
+      description: "Search the Clever developer docs. Returns the best-matching chunks with source links.",
+      inputSchema: {
+        query: z.string().describe("What to look for"),
+        limit: z.number().int().min(1).max(20).optional().describe("Maximum results (default 5)"),
+      },
+    },
+    async ({ query, limit }) => {
+      const results = await search(query, limit ?? 5, corpus.index, (id) => corpus.byId.get(id) ?? null);
+      if (results.length === 0) return text(`No results for "${query}".`);
+      return text(
+        results
+          .map(({ score, chunk }) => `${formatChunk(chunk)}\n\n(score ${score.toFixed(3)})`)
+          .join("\n\n---\n\n")
+      );
+    }
+  );
+
+  server.registerTool(
+    "get_chunk",
+    {
+      description: "Fetch a single docs chunk by ID.",
+      inputSchema: { id: z.string().describe("Chunk ID, e.g. courses-00") },
+    },
+    async ({ id }) => {
+      const chunk = getChunk(corpus, id);
+      return chunk ? text(formatChunk(chunk)) : notFound(`No chunk with ID "${id}".`);
+    }
+  );
+
+  server.registerTool(
+    "get_page",
+    {
+      description: "Fetch a full docs page, reassembled from all of its chunks.",
+      inputSchema: { path: z.string().describe('Page path, e.g. "/docs/courses" or "courses"') },
+    },
+    async ({ path }) => {
+      const chunks = getPage(corpus, path);
+      if (chunks.length === 0) return notFound(`No page at "${path}".`);
+
+      const [first] = chunks;
+      const missing = first.totalChunks - chunks.length;
+      return text(
+        [
+          `# ${first.title}`,
+          `Source: ${first.url}`,
+          ...(missing > 0 ? [`Note: ${missing} chunk(s) of this page are not in the corpus.`] : []),
+          ...chunks.map((c) => `<!-- ${c.id}: ${citationUrl(c)} -->\n${pageContent(c)}`),
+        ].join("\n\n")
+      );
+    }
+  );
+
+  server.registerTool(
+    "list_sections",
+    { description: "List the docs sections and the pages in each." },
+    async () =>
+      text(
+        listSections(corpus)
+          .map(({ section, pages }) =>
+            [`## ${section}`, ...pages.map((p) => `- ${p.title} (${p.path}): ${p.url}`)].join("\n")
+          )
+          .join("\n\n")
+      )
+  );
+
+  server.registerResource(
+    "manifest",
+    "clever-docs://manifest",
+    { description: "Manifest of all docs chunks", mimeType: "application/json" },
+    async (uri) => ({
+      contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(corpus.manifest, null, 2) }],
+    })
+  );
+
+  server.registerResource(
+    "chunk",
+    new ResourceTemplate("clever-docs://chunks/{id}", {
+      list: async () => ({
+        resources: corpus.chunks.map((c) => ({
+          uri: `clever-docs://chunks/${c.id}`,
+          name: c.parentHeadings.join(" > "),
+          mimeType: "text/markdown",
+        })),
+      }),
+    }),
+    { description: "A single docs chunk as markdown", mimeType: "text/markdown" },
+    async (uri, { id }) => {
+      const chunk = getChunk(corpus, String(id));
+      if (!chunk) throw new Error(`No chunk with ID "${id}".`);
+      return { contents: [{ uri: uri.href, mimeType: "text/markdown", text: formatChunk(chunk) }] };
+    }
+  );
+
+  return server;
+}
+
+// stdio transport: stdout carries the protocol, so log to stderr only
+// CLI: bun run mcp [--dir <output dir>]
+if (import.meta.main) {
+  const dirIndex = process.argv.indexOf("--dir");
+  const corpus = await openCorpus(dirIndex >= 0 ? process.argv[dirIndex + 1] : OUTPUT_DIR);
+  const server = createServer(corpus);
+  await server.connect(new StdioServerTransport());
+  console.error(`clever-dev-docs MCP server ready (${corpus.chunks.length} chunks).`);
+}
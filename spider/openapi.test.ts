@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test";
+import { crawlPage, extractFromHtml, type CrawlResult } from "./crawl.ts";
+import { collectApiSpecs, endpointChunks } from "./openapi.ts";
+import { FIXTURE_BASE_URL, fixtureFetcher, fixtureSite, readFixture } from "./__fixtures__/fixtures.ts";
+
+const REGISTRY_URL = "https://dash.readme.com/api/v1/api-registry/2x9ozlw3gxbcb";
+
+function page(fixture: string, path: string): CrawlResult {
+  const result = extractFromHtml(
+    readFixture(fixture),
+    `${FIXTURE_BASE_URL}${path}`,
+    path,
+    "LMS Connect (v3.1)",
+    "static",
+    fixtureSite()
+  );
+  return { ...result, crawledAt: "<crawledAt>" };
+}
+
+const swaggerSpec = {
+  swagger: "2.0",
+  info: { title: "Events API" },
+  paths: {
+    "/events": {
+      get: {
+        summary: "List events",
+        parameters: [{ name: "starting_after", in: "query", type: "string" }],
+        responses: { "200": { description: "OK", schema: { type: "array", items: { type: "object" } } } },
+      },
+    },
+  },
+};
+
+describe("findOpenApiSources", () => {
+  test("finds embedded definitions and download links before stripping", () => {
+    const reference = page("api-reference.html", "/docs/api-reference");
+    expect(reference.openapi).toHaveLength(2);
+    expect(reference.openapi[0].spec?.info?.title).toBe("LMS Connect");
+    expect(reference.openapi[1]).toEqual({ url: REGISTRY_URL, spec: null });
+    expect(reference.markdown).not.toContain("Try It");
+  });
+
+  test("finds nothing on prose pages", () => {
+    expect(page("readme-article.html", "/docs/oauth").openapi).toEqual([]);
+  });
+});
+
+describe("crawlPage", () => {
+  test("downloads linked definitions and drops ones that aren't OpenAPI", async () => {
+    const html = readFixture("api-reference.html");
+    const fetcher = async (url: string, init: RequestInit) =>
+      url === REGISTRY_URL
+        ? Response.json(swaggerSpec)
+        : fixtureFetcher({ "/docs/api-reference": html, "/docs/not-a-spec": "{}" })(url, init);
+
+    const result = await crawlPage("/docs/api-reference", "LMS Connect (v3.1)", { site: fixtureSite(), fetcher });
+    expect(result.openapi.map((s) => s.spec?.info?.title)).toEqual(["LMS Connect", "Events API"]);
+  });
+});
+
+describe("collectApiSpecs", () => {
+  test("deduplicates definitions shared by several pages", () => {
+    const a = page("api-reference.html", "/docs/api-reference");
+    const b = page("api-reference.html", "/docs/lms-connect-overview");
+    const specs = collectApiSpecs([b, a]);
+    expect(specs.map((s) => s.name)).toEqual(["lms-connect"]);
+    expect(specs[0].pages.map((p) => p.path)).toEqual(["/docs/api-reference", "/docs/lms-connect-overview"]);
+  });
+
+  test("names definitions with the same title apart", () => {
+    const a = { ...page("readme-article.html", "/docs/a"), openapi: [{ url: null, spec: swaggerSpec }] };
+    const b = {
+      ...page("readme-article.html", "/docs/b"),
+      openapi: [{ url: null, spec: { ...swaggerSpec, paths: {} } }],
+    };
+    expect(collectApiSpecs([a, b]).map((s) => s.name)).toEqual(["events-api", "events-api-2"]);
+  });
+});
+
+describe("endpointChunks", () => {
+  const [lms] = collectApiSpecs([page("api-reference.html", "/docs/api-reference")]);
+  const chunks = endpointChunks(lms);
+
+  test("makes one chunk per operation, cited against the prose page", () => {
+    expect(chunks.map((c) => [c.id, c.path, c.heading])).toEqual([
+      ["openapi-lms-connect-get-sections-id-assignments", "/docs/api-reference", "GET /sections/{id}/assignments"],
+      ["openapi-lms-connect-post-sections-id-assignments", "/docs/api-reference", "POST /sections/{id}/assignments"],
+    ]);
+    for (const chunk of chunks) {
+      expect(chunk.kind).toBe("endpoint");
+      expect(chunk.url).toBe(`${FIXTURE_BASE_URL}/docs/api-reference`);
+      expect(chunk.parentHeadings).toEqual(["LMS Connect API Reference", "Assignments"]);
+    }
+  });
+
+  test("lists path parameters, error codes and resolved schemas", () => {
+    const [get, post] = chunks;
+    expect(get.content).toContain("| id | path | string | yes | Section ID |");
+    expect(get.content).toContain("| limit | query | integer (int32) | no | Page size \\| max 100 |");
+    expect(get.content).toContain("| 401 | Missing or invalid bearer token |");
+    expect(get.content).toContain('"enum": [\n');
+    expect(post.content).toContain("> [!WARNING]");
+    expect(post.content).toContain('"$ref": "Assignment"');
+  });
+
+  test("numbers endpoints among themselves and keeps colliding IDs apart", () => {
+    expect(chunks.map((c) => [c.chunkIndex, c.totalChunks])).toEqual([
+      [0, 2],
+      [1, 2],
+    ]);
+
+    const operation = { responses: { "200": { description: "OK" } } };
+    const paths = { "/users/{id}": { get: operation }, "/users/id": { get: operation }, "/a-b": { get: operation } };
+    const ids = endpointChunks({ ...lms, spec: { ...lms.spec, paths } }).map((c) => c.id);
+    expect(ids[0]).toMatch(/^openapi-lms-connect-get-users-id-[0-9a-f]{8}$/);
+    expect(ids[1]).toMatch(/^openapi-lms-connect-get-users-id-[0-9a-f]{8}$/);
+    expect(ids[0]).not.toBe(ids[1]);
+    expect(ids[2]).toBe("openapi-lms-connect-get-a-b");
+  });
+
+  test("matches the snapshot", () => {
+    expect(chunks.map((c) => c.content)).toMatchSnapshot();
+  });
+});
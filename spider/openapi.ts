@@ -0,0 +1,432 @@
+import type { CheerioAPI } from "cheerio";
+import type { CrawlResult } from "./crawl.ts";
+import { headingAnchor, type DocChunk } from "./chunk.ts";
+import { hashContent } from "./cache.ts";
+import { countTokens } from "./tokenizer.ts";
+import { MAX_CHUNK_TOKENS } from "./config.ts";
+
+// The parts of an OpenAPI 3 / Swagger 2 definition that get rendered.
+// Most objects can be a { $ref } to one defined elsewhere in the document.
+interface SchemaObject {
+  $ref?: string;
+  type?: string;
+  format?: string;
+  description?: string;
+  enum?: unknown[];
+  nullable?: boolean;
+  required?: string[];
+  default?: unknown;
+  properties?: Record<string, SchemaObject>;
+  items?: SchemaObject;
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  additionalProperties?: boolean | SchemaObject;
+}
+
+// An OpenAPI 3 request body or response, or a Swagger 2 response or body
+// parameter
+interface BodyObject {
+  $ref?: string;
+  description?: string;
+  content?: Record<string, { schema?: SchemaObject }>;
+  schema?: SchemaObject;
+}
+
+interface ParameterObject extends BodyObject {
+  name?: string;
+  in?: string;
+  required?: boolean;
+  // Swagger 2 keeps the type of non-body parameters on the parameter itself
+  type?: string;
+  format?: string;
+  items?: SchemaObject;
+}
+
+interface OperationObject {
+  summary?: string;
+  description?: string;
+  deprecated?: boolean;
+  operationId?: string;
+  tags?: string[];
+  parameters?: ParameterObject[];
+  requestBody?: BodyObject;
+  responses?: Record<string, BodyObject>;
+}
+
+type PathItemObject = { $ref?: string; parameters?: ParameterObject[] } & {
+  [method: string]: OperationObject | ParameterObject[] | string | undefined;
+};
+
+export interface OpenApiDocument {
+  openapi?: string;
+  swagger?: string;
+  info?: { title?: string; description?: string };
+  paths: Record<string, PathItemObject>;
+  [key: string]: unknown;
+}
+
+/**
+ * An API definition referenced by a page: embedded in the page's JSON data,
+ * or linked (`spec` stays null until the crawler downloads it).
+ */
+export interface OpenApiSource {
+  url: string | null;
+  spec: OpenApiDocument | null;
+}
+
+export interface ApiSpec {
+  name: string;
+  spec: OpenApiDocument;
+  // Prose pages that reference this definition, sorted by path
+  pages: CrawlResult[];
+}
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+// "Download OAS" links, ReadMe API registry URLs and plain spec files
+const SPEC_LINK_PATTERN = /api-registry\/|(?:openapi|swagger)[\w.-]*\.json(?:$|\?)/i;
+
+// Keys in ReadMe's page data that point at the API definition
+const SPEC_URL_KEY_PATTERN = /^oas(?:Public)?Url$|^apiDefinitionUrl$/i;
+
+export function isOpenApiDocument(value: unknown): value is OpenApiDocument {
+  if (!value || typeof value !== "object") return false;
+  const doc = value as Record<string, unknown>;
+  return (
+    (typeof doc.openapi === "string" || typeof doc.swagger === "string") &&
+    !!doc.paths &&
+    typeof doc.paths === "object"
+  );
+}
+
+/**
+ * Walk embedded JSON collecting API definitions and URLs that point at one.
+ */
+function collectFromJson(value: unknown, specs: OpenApiDocument[], urls: Set<string>, depth = 0): void {
+  if (!value || typeof value !== "object" || depth > 12) return;
+  if (isOpenApiDocument(value)) {
+    specs.push(value);
+    return;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    if (typeof child === "string") {
+      if (SPEC_URL_KEY_PATTERN.test(key) && /^https?:\/\//.test(child)) urls.add(child);
+    } else {
+      collectFromJson(child, specs, urls, depth + 1);
+    }
+  }
+}
+
+/**
+ * Find the API definitions behind a ReadMe API reference page, before its
+ * scripts and try-it widgets are stripped.
+ */
+export function findOpenApiSources($: CheerioAPI, pageUrl: string): OpenApiSource[] {
+  const specs: OpenApiDocument[] = [];
+  const urls = new Set<string>();
+
+  $("script[type='application/json'], script[type='application/ld+json'], [data-json]").each((_, el) => {
+    const $el = $(el);
+    const text = $el.attr("data-json") ?? $el.text();
+    try {
+      collectFromJson(JSON.parse(text), specs, urls);
+    } catch {
+      // Not JSON (or not ours)
+    }
+  });
+
+  $("a[href], link[href]").each((_, el) => {
+    const href = $(el).attr("href");
+    if (!href || !SPEC_LINK_PATTERN.test(href)) return;
+    try {
+      urls.add(new URL(href, pageUrl).href);
+    } catch {
+      // Malformed href
+    }
+  });
+
+  const seen = new Set<string>();
+  const inline = specs
+    .filter((spec) => {
+      const hash = hashContent(JSON.stringify(spec));
+      if (seen.has(hash)) return false;
+      seen.add(hash);
+      return true;
+    })
+    .map((spec) => ({ url: null, spec }));
+
+  return [...inline, ...[...urls].map((url) => ({ url, spec: null }))];
+}
+
+/**
+ * Deduplicate the definitions found across all pages and name each one
+ * after its title.
+ */
+export function collectApiSpecs(pages: CrawlResult[]): ApiSpec[] {
+  const byHash = new Map<string, ApiSpec>();
+  const sorted = [...pages].sort((a, b) => a.path.localeCompare(b.path));
+
+  for (const page of sorted) {
+    for (const source of page.openapi) {
+      if (!source.spec) continue;
+      const hash = hashContent(JSON.stringify(source.spec));
+      const existing = byHash.get(hash);
+      if (existing) {
+        if (!existing.pages.includes(page)) existing.pages.push(page);
+      } else {
+        byHash.set(hash, { name: "", spec: source.spec, pages: [page] });
+      }
+    }
+  }
+
+  const names = new Set<string>();
+  const specs = [...byHash.entries()].map(([hash, apiSpec]) => {
+    const base = headingAnchor(String(apiSpec.spec.info?.title ?? "")) || `api-${hash.slice(0, 10)}`;
+    let name = base;
+    for (let n = 2; names.has(name); n++) name = `${base}-${n}`;
+    names.add(name);
+    return { ...apiSpec, name };
+  });
+
+  return specs;
+}
+
+/**
+ * Follow a local JSON pointer like "#/components/schemas/User".
+ */
+function resolveRef(spec: OpenApiDocument, ref: string): unknown {
+  if (!ref.startsWith("#/")) return undefined;
+  return ref
+    .slice(2)
+    .split("/")
+    .map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce<unknown>(
+      (node, key) => (node && typeof node === "object" ? (node as Record<string, unknown>)[key] : undefined),
+      spec
+    );
+}
+
+/**
+ * Inline $refs and drop noise from a schema, down to `depth` levels.
+ * Deeper (or circular) references are left as the referenced schema's name.
+ */
+function simplifySchema(
+  spec: OpenApiDocument,
+  schema: SchemaObject | undefined,
+  depth: number,
+  seen: string[] = []
+): unknown {
+  if (!schema || typeof schema !== "object") return schema;
+
+  if (typeof schema.$ref === "string") {
+    const name = schema.$ref.split("/").pop();
+    const target = resolveRef(spec, schema.$ref) as SchemaObject | undefined;
+    if (!target || depth <= 0 || seen.includes(schema.$ref)) return { $ref: name };
+    return simplifySchema(spec, target, depth, [...seen, schema.$ref]);
+  }
+
+  const out: Record<string, unknown> = {};
+  for (const key of ["type", "format", "description", "enum", "nullable", "required", "default"] as const) {
+    if (schema[key] !== undefined) out[key] = schema[key];
+  }
+
+  if (depth <= 0) {
+    if (schema.properties) out.properties = Object.keys(schema.properties);
+    return out;
+  }
+
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([name, prop]) => [name, simplifySchema(spec, prop, depth - 1, seen)])
+    );
+  }
+  if (schema.items) out.items = simplifySchema(spec, schema.items, depth - 1, seen);
+  for (const key of ["allOf", "oneOf", "anyOf"] as const) {
+    const variants = schema[key];
+    if (Array.isArray(variants)) {
+      out[key] = variants.map((s) => simplifySchema(spec, s, depth - 1, seen));
+    }
+  }
+  if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+    out.additionalProperties = simplifySchema(spec, schema.additionalProperties, depth - 1, seen);
+  }
+  return out;
+}
+
+function cell(text: unknown): string {
+  return String(text ?? "")
+    .trim()
+    .replace(/\n+/g, "<br>")
+    .replace(/\|/g, "\\|");
+}
+
+/**
+ * The object a { $ref } points at, or the value itself. Definitions are
+ * trusted to put the right kind of object at the other end.
+ */
+function deref<T extends { $ref?: string }>(spec: OpenApiDocument, value: T | undefined): T | undefined {
+  if (!value || typeof value.$ref !== "string") return value;
+  return (resolveRef(spec, value.$ref) as T | undefined) ?? value;
+}
+
+function parameterType(spec: OpenApiDocument, param: ParameterObject): string {
+  const schema = deref(spec, param.schema) ?? param;
+  if (schema.type === "array") {
+    const items = deref(spec, schema.items);
+    return `array of ${items?.type ?? schema.items?.$ref?.split("/").pop() ?? "items"}`;
+  }
+  return [schema.type, schema.format && `(${schema.format})`].filter(Boolean).join(" ") || "";
+}
+
+/**
+ * The body schema of a request or response: OpenAPI 3 `content` (JSON
+ * preferred) or a Swagger 2 `schema`.
+ */
+function bodySchema(body: BodyObject | undefined): { mediaType: string | null; schema: SchemaObject } | null {
+  if (!body) return null;
+  if (body.content && typeof body.content === "object") {
+    const types = Object.keys(body.content);
+    const mediaType = types.find((t) => t.includes("json")) ?? types[0];
+    const schema = mediaType ? body.content[mediaType]?.schema : undefined;
+    return schema ? { mediaType, schema } : null;
+  }
+  return body.schema ? { mediaType: null, schema: body.schema } : null;
+}
+
+function jsonBlock(value: unknown): string {
+  return ["```json", JSON.stringify(value, null, 2), "```"].join("\n");
+}
+
+function renderOperation(
+  spec: OpenApiDocument,
+  method: string,
+  path: string,
+  pathItem: PathItemObject,
+  operation: OperationObject,
+  depth: number
+): string {
+  const lines: string[] = [`## ${method.toUpperCase()} ${path}`];
+
+  const summary = operation.summary?.trim();
+  const description = operation.description?.trim();
+  if (summary) lines.push("", summary);
+  if (description && description !== summary) lines.push("", description);
+  if (operation.deprecated) lines.push("", "> [!WARNING]", "> **Deprecated**");
+
+  const meta: string[] = [];
+  if (operation.operationId) meta.push(`**Operation ID:** \`${operation.operationId}\``);
+  if (operation.tags?.length) meta.push(`**Tags:** ${operation.tags.join(", ")}`);
+  if (meta.length > 0) lines.push("", meta.join("  \n"));
+
+  // Operation parameters override path-level ones with the same name and location
+  const params = new Map<string, ParameterObject>();
+  for (const raw of [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]) {
+    const param = deref(spec, raw);
+    if (param?.name) params.set(`${param.in}:${param.name}`, param);
+  }
+  const swaggerBody = [...params.values()].find((p) => p.in === "body");
+  const listed = [...params.values()].filter((p) => p.in !== "body");
+
+  if (listed.length > 0) {
+    lines.push("", "### Parameters", "", "| Name | In | Type | Required | Description |", "| --- | --- | --- | --- | --- |");
+    for (const p of listed) {
+      lines.push(
+        `| ${cell(p.name)} | ${cell(p.in)} | ${cell(parameterType(spec, p))} | ${p.required ? "yes" : "no"} | ${cell(p.description)} |`
+      );
+    }
+  }
+
+  const request = bodySchema(deref(spec, operation.requestBody)) ?? bodySchema(swaggerBody);
+  if (request) {
+    lines.push("", `### Request body${request.mediaType ? ` (\`${request.mediaType}\`)` : ""}`, "");
+    lines.push(jsonBlock(simplifySchema(spec, request.schema, depth)));
+  }
+
+  const responses = Object.entries(operation.responses ?? {}).map(([status, raw]) => ({
+    status,
+    response: deref(spec, raw) ?? {},
+  }));
+  const isError = (status: string) => status === "default" || Number(status) >= 400;
+  const successes = responses.filter((r) => !isError(r.status));
+  const errors = responses.filter((r) => isError(r.status));
+
+  if (successes.length > 0) {
+    lines.push("", "### Responses");
+    for (const { status, response } of successes) {
+      lines.push("", `**${status}**${response.description ? `: ${response.description.trim()}` : ""}`);
+      const body = bodySchema(response);
+      if (body) lines.push("", jsonBlock(simplifySchema(spec, body.schema, depth)));
+    }
+  }
+
+  if (errors.length > 0) {
+    lines.push("", "### Errors", "", "| Status | Description |", "| --- | --- |");
+    for (const { status, response } of errors) {
+      lines.push(`| ${cell(status)} | ${cell(response.description)} |`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function pathSlug(path: string): string {
+  return path.replace(/[^A-Za-z0-9]+/g, "-").replace(/^-|-$/g, "").toLowerCase() || "root";
+}
+
+/**
+ * One chunk per endpoint, cited against the first prose page that
+ * references the definition. Endpoint chunks share that page's path and
+ * are told apart from its prose by their kind; they're numbered among
+ * themselves, so the page's own chunk count doesn't include them.
+ * Endpoints whose paths slug the same ("/users/{id}" and "/users/id")
+ * get a short hash of the method and path to keep their IDs apart.
+ */
+export function endpointChunks(apiSpec: ApiSpec): DocChunk[] {
+  const { name, spec } = apiSpec;
+  const page = apiSpec.pages[0];
+  const endpoints: Array<{ id: string; method: string; path: string; content: string; tag?: string }> = [];
+
+  for (const [path, rawItem] of Object.entries(spec.paths)) {
+    const pathItem = deref(spec, rawItem) ?? {};
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation || typeof operation !== "object" || Array.isArray(operation)) continue;
+
+      // Shallower schemas until the endpoint fits in one chunk
+      let content = "";
+      for (let depth = 6; depth >= 1; depth--) {
+        content = renderOperation(spec, method, path, pathItem, operation, depth);
+        if (countTokens(content) <= MAX_CHUNK_TOKENS) break;
+      }
+
+      const id = `openapi-${name}-${method}-${pathSlug(path)}`;
+      endpoints.push({ id, method, path, content, tag: operation.tags?.[0] });
+    }
+  }
+
+  const idCounts = new Map<string, number>();
+  for (const { id } of endpoints) idCounts.set(id, (idCounts.get(id) ?? 0) + 1);
+
+  const chunks: DocChunk[] = endpoints.map(({ id, method, path, content, tag }, i) => ({
+    id: idCounts.get(id)! > 1 ? `${id}-${hashContent(`${method} ${path}`).slice(0, 8)}` : id,
+    url: page.url,
+    anchorUrl: page.url,
+    path: page.path,
+    section: page.section,
+    title: page.title,
+    heading: `${method.toUpperCase()} ${path}`,
+    headingLevel: 2,
+    parentHeadings: [page.title, ...(tag ? [tag] : [])],
+    content,
+    tokenEstimate: countTokens(content),
+    crawledAt: page.crawledAt,
+    fetchMethod: page.fetchMethod,
+    chunkIndex: i,
+    totalChunks: endpoints.length,
+    kind: "endpoint",
+  }));
+
+  return chunks;
+}
@@ -0,0 +1,212 @@
+import type { CrawlResult } from "./crawl.ts";
+import type { DocChunk } from "./chunk.ts";
+
+export interface RedactionRule {
+  name: string;
+  // e.g. "secret" or "pii"
+  category: string;
+  // Global regex. With a named group "value" only that part is replaced,
+  // otherwise the whole match is.
+  pattern: RegExp;
+  // What the redacted text becomes; also how redactions are found again
+  // in chunks, so it must not match `pattern` itself
+  placeholder: string;
+  // Return false to leave a value alone (e.g. allowlisted domains)
+  applies?: (value: string) => boolean;
+}
+
+/**
+ * A redaction rule as written in a site config. `pattern` is a regex
+ * source string.
+ */
+export interface CustomRedactionRule {
+  name: string;
+  pattern: string;
+  flags?: string;
+  category?: string;
+  placeholder?: string;
+}
+
+export interface ChunkRedaction {
+  rule: string;
+  category: string;
+  // 1-based line in the chunk content
+  line: number;
+}
+
+export interface RedactionSummary {
+  rule: string;
+  category: string;
+  count: number;
+  chunks: number;
+  pages: number;
+}
+
+// Example addresses and Clever's own contact addresses are fine to keep
+const ALLOWED_EMAIL_DOMAINS = /(?:^|\.)(?:clever\.com|example\.(?:com|org|net))$/i;
+
+// Look-aheads requiring a digit and a lowercase letter, so documentation
+// placeholders like YOUR_ACCESS_TOKEN aren't treated as real values
+const HAS_DIGIT_AND_LOWER = "(?=[\\w.~+/-]*\\d)(?=[\\w.~+/-]*[a-z])";
+
+export const BUILTIN_RULES: RedactionRule[] = [
+  {
+    // Clever's docs include example creds like "Basic YW5Wc..." which trigger
+    // tools like GitGuardian
+    name: "basic-auth",
+    category: "secret",
+    pattern: /Basic (?<value>[A-Za-z0-9+/=]{20,})/g,
+    placeholder: "<BASE64_ENCODED_CLIENT_ID_AND_SECRET>",
+  },
+  {
+    name: "jwt",
+    category: "secret",
+    pattern: /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]{10,}/g,
+    placeholder: "<REDACTED_JWT>",
+  },
+  {
+    name: "bearer-token",
+    category: "secret",
+    pattern: new RegExp(`Bearer (?<value>${HAS_DIGIT_AND_LOWER}[\\w.~+/-]{8,}=*)`, "gi"),
+    placeholder: "<REDACTED_BEARER_TOKEN>",
+  },
+  {
+    name: "client-secret",
+    category: "secret",
+    pattern: new RegExp(`client_secret["']?\\s*[:=]\\s*["']?(?<value>${HAS_DIGIT_AND_LOWER}[\\w-]{12,})`, "gi"),
+    placeholder: "<REDACTED_CLIENT_SECRET>",
+  },
+  {
+    name: "email",
+    category: "pii",
+    // Not image names like "logo@2x.png"
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.(?!(?:png|jpe?g|gif|svg|webp)\b)[A-Za-z]{2,}\b/g,
+    placeholder: "<REDACTED_EMAIL>",
+    applies: (email) => !ALLOWED_EMAIL_DOMAINS.test(email.split("@")[1]),
+  },
+];
+
+/**
+ * Compile config rules and append them to the built-in ones.
+ */
+export function buildRedactionRules(custom: CustomRedactionRule[] = []): RedactionRule[] {
+  const compiled = custom.map((rule) => {
+    let pattern: RegExp;
+    try {
+      const flags = rule.flags ?? "";
+      pattern = new RegExp(rule.pattern, flags.includes("g") ? flags : `${flags}g`);
+    } catch (err) {
+      throw new Error(`Invalid redaction rule "${rule.name}": ${err instanceof Error ? err.message : err}`);
+    }
+    return {
+      name: rule.name,
+      category: rule.category ?? "custom",
+      pattern,
+      placeholder: rule.placeholder ?? `<REDACTED_${rule.name.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}>`,
+    };
+  });
+  return [...BUILTIN_RULES, ...compiled];
+}
+
+/**
+ * Apply every rule to a string. Rules run in order, so earlier rules win
+ * (a JWT used as a bearer token is reported as a JWT).
+ */
+export function redactText(text: string, rules: RedactionRule[]): string {
+  return rules.reduce(
+    (result, rule) =>
+      result.replace(rule.pattern, (match: string, ...args: unknown[]) => {
+        const groups = args[args.length - 1];
+        const value =
+          groups && typeof groups === "object" ? (groups as Record<string, string | undefined>).value : undefined;
+        if (rule.applies && !rule.applies(value ?? match)) return match;
+        if (value === undefined) return rule.placeholder;
+        const at = match.lastIndexOf(value);
+        return match.slice(0, at) + rule.placeholder + match.slice(at + value.length);
+      }),
+    text
+  );
+}
+
+/**
+ * Redact every string in parsed JSON (object keys included), leaving its
+ * structure alone.
+ */
+function redactJson<T>(value: T, rules: RedactionRule[]): T {
+  if (typeof value === "string") return redactText(value, rules) as T;
+  if (Array.isArray(value)) return value.map((item) => redactJson(item, rules)) as T;
+  if (!value || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]) => [redactText(key, rules), redactJson(child, rules)])
+  ) as T;
+}
+
+/**
+ * Redact everything a page carries into the output: title, description,
+ * markdown, schema tables and API definitions.
+ */
+export function redactPage(page: CrawlResult, rules: RedactionRule[]): CrawlResult {
+  return {
+    ...page,
+    title: redactText(page.title, rules),
+    description: redactText(page.description, rules),
+    markdown: redactText(page.markdown, rules),
+    schemas: redactJson(page.schemas, rules),
+    openapi: redactJson(page.openapi, rules),
+  };
+}
+
+/**
+ * Find the placeholders left in a chunk, one entry per occurrence.
+ */
+export function locateRedactions(content: string, rules: RedactionRule[]): ChunkRedaction[] {
+  const found: ChunkRedaction[] = [];
+  content.split("\n").forEach((text, i) => {
+    for (const rule of rules) {
+      let from = text.indexOf(rule.placeholder);
+      while (from >= 0) {
+        found.push({ rule: rule.name, category: rule.category, line: i + 1 });
+        from = text.indexOf(rule.placeholder, from + rule.placeholder.length);
+      }
+    }
+  });
+  return found;
+}
+
+/**
+ * Record redactions in chunk metadata. Chunks without any are left as is.
+ */
+export function annotateRedactions(chunks: DocChunk[], rules: RedactionRule[]): DocChunk[] {
+  return chunks.map((chunk) => {
+    const redactions = locateRedactions(chunk.content, rules);
+    return redactions.length > 0 ? { ...chunk, redactions } : chunk;
+  });
+}
+
+/**
+ * Per-rule totals for a run.
+ */
+export function summarizeRedactions(chunks: DocChunk[]): RedactionSummary[] {
+  const byRule = new Map<string, RedactionSummary & { chunkIds: Set<string>; paths: Set<string> }>();
+  for (const chunk of chunks) {
+    for (const redaction of chunk.redactions ?? []) {
+      const entry = byRule.get(redaction.rule) ?? {
+        rule: redaction.rule,
+        category: redaction.category,
+        count: 0,
+        chunks: 0,
+        pages: 0,
+        chunkIds: new Set(),
+        paths: new Set(),
+      };
+      entry.count++;
+      entry.chunkIds.add(chunk.id);
+      entry.paths.add(chunk.path);
+      byRule.set(redaction.rule, entry);
+    }
+  }
+
+  return [...byRule.values()]
+    .map(({ chunkIds, paths, ...summary }) => ({ ...summary, chunks: chunkIds.size, pages: paths.size }))
+    .sort((a, b) => b.count - a.count || a.rule.localeCompare(b.rule));
+}
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import { sanitizeMarkdown } from "./sanitize.ts";
+import { readFixture } from "./__fixtures__/fixtures.ts";
+
+const markdown = sanitizeMarkdown(readFixture("readme-artifacts.md"));
+
+describe("sanitizeMarkdown", () => {
+  test("removes CSS leaked from inline styles", () => {
+    expect(markdown).not.toContain("tailwindcss");
+    expect(markdown).not.toContain("@layer");
+    expect(markdown.startsWith("# Courses\n")).toBe(true);
+  });
+
+  test("joins split headings, keeping ReadMe's anchor when it differs", () => {
+    expect(markdown.match(/^#{1,6} .*$/gm)).toEqual(["# Courses", "## Schema", "## Schema {#schema-1}"]);
+    expect(markdown).not.toContain("[](#");
+  });
+
+  test("turns emoji callouts into typed admonitions", () => {
+    expect(markdown).toContain(
+      [
+        "> [!WARNING]",
+        "> **No user tokens**",
+        ">",
+        "> The course object cannot be accessed using a user-level token.",
+      ].join("\n")
+    );
+  });
+
+  test("drops the Table of Contents block", () => {
+    expect(markdown).not.toContain("Table of Contents");
+    expect(markdown).not.toContain("[Schema](#schema)");
+  });
+
+  test("is safe to run twice", () => {
+    expect(sanitizeMarkdown(markdown)).toBe(markdown);
+  });
+});
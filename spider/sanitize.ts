@@ -0,0 +1,140 @@
+import { headingAnchor } from "./chunk.ts";
+import type { CrawlResult } from "./crawl.ts";
+
+// ReadMe callout emojis -> GitHub-style admonition types
+const CALLOUT_TYPES: Record<string, string> = {
+  "📘": "NOTE",
+  "☝": "NOTE",
+  "🤔": "NOTE",
+  "👍": "TIP",
+  "💡": "TIP",
+  "💪": "TIP",
+  "🚧": "WARNING",
+  "✋": "WARNING",
+  "❗": "CAUTION",
+};
+
+/**
+ * Remove CSS that leaks into the markdown from inline <style> tags,
+ * e.g. "/\*! tailwindcss v4.1.17 ... \*\/ @layer theme, base, ...;".
+ */
+function stripInlineStyles(markdown: string): string {
+  return markdown
+    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "")
+    .replace(/^\/\\?\*![\s\S]*?(?=\n\n|$(?![\s\S]))/gm, "")
+    .replace(/^@layer [^\n]*;[ \t]*$/gm, "");
+}
+
+/**
+ * ReadMe renders headings as an empty "# " line, the heading text, and an
+ * empty anchor link, each on its own line (also inside blockquotes and
+ * list items):
+ *
+ *   #
+ *
+ *   Schema
+ *
+ *   [](#schema)
+ *
+ * Collapse that back into a single ATX heading ("# Schema"). When ReadMe's
+ * anchor isn't the one the text would give (numbered repeats, unusual
+ * characters), keep it as "# Schema {#schema-1}".
+ */
+function collapseSplitHeadings(markdown: string): string {
+  const splitHeading =
+    /^([ \t]*(?:> ?)*)(#{1,6})[ \t]*\n(?:[ \t>]*\n)*\1(\S.*?)[ \t]*\n(?:[ \t>]*\n)*\1\[\]\(#([^)\s]*)\)[ \t]*$/gm;
+
+  return markdown
+    .replace(splitHeading, (_match, prefix: string, hashes: string, text: string, anchor: string) => {
+      const heading = text.replace(/^\*\*(.+)\*\*$/, "$1").trim();
+      const keep = anchor && anchor !== headingAnchor(heading) ? ` {#${anchor}}` : "";
+      return `${prefix}${hashes} ${heading}${keep}`;
+    })
+    // Leftover empty anchor links and empty heading lines
+    .replace(/^[ \t]*(?:> ?)*\[\]\(#[^)\s]*\)[ \t]*\n?/gm, "")
+    .replace(/^[ \t]*(?:> ?)*#{1,6}[ \t]*$\n?/gm, "");
+}
+
+/**
+ * Turn ReadMe callouts (a blockquote that opens with an emoji line) into
+ * typed admonitions:
+ *
+ *   > [!WARNING]
+ *   > **No user tokens**
+ *   >
+ *   > The course object cannot be accessed using a user-level token...
+ */
+function normalizeCallouts(markdown: string): string {
+  const lines = markdown.split("\n");
+  const out: string[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    // Callouts can also be nested in list items, so keep their indentation
+    const match = lines[i].match(/^([ \t]*)> ?(\S+)\s*$/);
+    const indent = match?.[1] ?? "";
+    const type = match ? CALLOUT_TYPES[match[2].replace(/\uFE0F/g, "")] : undefined;
+    const quote = `${indent}>`;
+    const startsBlock = i === 0 || !lines[i - 1].startsWith(quote);
+
+    if (!type || !startsBlock) {
+      out.push(lines[i]);
+      i++;
+      continue;
+    }
+
+    // Collect the rest of the blockquote, dropping leading blank lines
+    const body: string[] = [];
+    i++;
+    while (i < lines.length && lines[i].startsWith(quote)) {
+      const text = lines[i].slice(quote.length).replace(/^ /, "");
+      if (body.length > 0 || text.trim()) body.push(text);
+      i++;
+    }
+
+    // A leading heading inside the callout becomes its bold title
+    const title = body[0]?.match(/^#{1,6}\s+(.+)$/)?.[1];
+    if (title) body[0] = `**${title.trim()}**`;
+
+    out.push(`${quote} [!${type}]`);
+    for (const text of body) {
+      out.push(text.trim() ? `${quote} ${text}` : quote);
+    }
+  }
+
+  return out.join("\n");
+}
+
+/**
+ * Drop ReadMe's "Table of Contents" block: the heading plus its list of
+ * in-page links, up to the next heading.
+ */
+function dropTableOfContents(markdown: string): string {
+  return markdown.replace(/^#{1,6} Table of Contents[ \t]*\n[\s\S]*?(?=^#{1,6} |$(?![\s\S]))/gm, "");
+}
+
+/**
+ * Clean ReadMe rendering artifacts out of extracted markdown.
+ * Safe to run more than once on the same text.
+ */
+export function sanitizeMarkdown(markdown: string): string {
+  let md = markdown.replace(/\r\n/g, "\n");
+  md = stripInlineStyles(md);
+  md = collapseSplitHeadings(md);
+  md = normalizeCallouts(md);
+  md = dropTableOfContents(md);
+
+  return md
+    .replace(/^[ \t]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    // A horizontal rule with nothing before it is just a section separator
+    .replace(/^(?:\* \* \*\n+)+/, "")
+    .trim();
+}
+
+/**
+ * Cleanup stage between extraction and chunking.
+ */
+export function sanitizePage(page: CrawlResult): CrawlResult {
+  return { ...page, markdown: sanitizeMarkdown(page.markdown) };
+}
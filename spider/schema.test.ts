@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { extractFromHtml } from "./crawl.ts";
+import { buildSchemaDefinitions } from "./schema.ts";
+import { FIXTURE_BASE_URL, fixtureSite, readFixture } from "./__fixtures__/fixtures.ts";
+
+const page = extractFromHtml(
+  readFixture("data-model.html"),
+  `${FIXTURE_BASE_URL}/docs/courses`,
+  "/docs/courses",
+  "Fixtures",
+  "static",
+  fixtureSite()
+);
+const [fields, v31] = page.schemas;
+
+describe("extractSchemaTables", () => {
+  test("reads data-model tables whose first column names the object", () => {
+    expect(page.schemas.map((t) => [t.heading, t.apiVersion])).toEqual([
+      ["Fields", "v3.0"],
+      ["v3.1 Only", "v3.1"],
+    ]);
+    expect(fields.fields.map((f) => [f.name, f.type, f.guaranteed])).toEqual([
+      ["id", "string", true],
+      ["number", null, false],
+      ["subject", "enum", false],
+      ["created", "datetime", true],
+    ]);
+    expect(fields.fields[2].enum).toEqual(["english/language arts", "math", ""]);
+  });
+
+  test("leaves nullable unset unless the table says", () => {
+    expect(fields.fields.map((f) => f.nullable)).toEqual([undefined, true, undefined, undefined]);
+    expect(v31.fields.map((f) => [f.name, f.nullable])).toEqual([
+      ["name", false],
+      ["ext", true],
+    ]);
+  });
+});
+
+describe("buildSchemaDefinitions", () => {
+  test("names each definition after the page path", () => {
+    expect(buildSchemaDefinitions([page]).map((d) => [d.object, d.tables.length])).toEqual([["courses", 2]]);
+  });
+});
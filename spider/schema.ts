@@ -0,0 +1,153 @@
+import type { CheerioAPI } from "cheerio";
+import type { CrawlResult } from "./crawl.ts";
+import { pageSlug } from "./chunk.ts";
+
+export interface SchemaField {
+  name: string;
+  // From a "Type" column when the table has one, otherwise inferred
+  // from the description; null when neither says anything useful.
+  type: string | null;
+  guaranteed: boolean;
+  // Only set when the table says whether the field can be null; a field
+  // that isn't guaranteed may be missing rather than null
+  nullable?: boolean;
+  enum: string[] | null;
+  description: string;
+  apiVersion: string;
+}
+
+export interface SchemaTable {
+  heading: string;
+  apiVersion: string;
+  fields: SchemaField[];
+}
+
+export interface SchemaDefinition {
+  object: string;
+  title: string;
+  url: string;
+  path: string;
+  tables: SchemaTable[];
+}
+
+// Clever's data-model pages default to v3.0 unless they say otherwise
+const DEFAULT_API_VERSION = "v3.0";
+
+function findApiVersion(text: string): string | null {
+  const match = text.match(/\bv(\d+\.\d+)\b/i);
+  return match ? `v${match[1]}` : null;
+}
+
+/**
+ * Pull enum values out of descriptions like
+ * 'Possible values: ["Y", "N", ""]'. Handles curly quotes.
+ */
+function parseEnumValues(description: string): string[] | null {
+  const match = description.match(/possible values:?\s*\[([\s\S]*?)\]/i);
+  if (!match) return null;
+
+  const values = [...match[1].matchAll(/["“”]([^"“”]*)["“”]/g)].map((m) => m[1].trim());
+  return values.length > 0 ? [...new Set(values)] : null;
+}
+
+/**
+ * Whether a field can be null, from a "Nullable" column or the description.
+ */
+function parseNullable(nullableText: string | null, description: string): boolean | undefined {
+  if (nullableText) return /^(yes|true|nullable)/i.test(nullableText);
+  if (/\b(?:nullable|can be null|may be null)\b/i.test(description)) return true;
+  return undefined;
+}
+
+function inferType(name: string, description: string, enumValues: string[] | null): string | null {
+  if (enumValues) return "enum";
+  if (/^list of\b/i.test(description)) return "array";
+  if (/UTC time|date time format/i.test(description)) return "datetime";
+  if (/^links\./.test(name)) return "link";
+  if (/\bid\b/i.test(description) && /globally unique/i.test(description)) return "string";
+  return null;
+}
+
+/**
+ * Detect "Field / Guaranteed? / Type / Description" tables in page content
+ * and parse them into field definitions. The first column holds the field
+ * name (its header varies: "Field", "Teacher", ...).
+ */
+export function extractSchemaTables($: CheerioAPI, pageText: string): SchemaTable[] {
+  // Fall back to the first versioned API URL on the page, e.g. "/v3.0/users"
+  const pageVersion = findApiVersion(pageText.match(/\/v\d+\.\d+\//)?.[0] ?? "") ?? DEFAULT_API_VERSION;
+  const tables: SchemaTable[] = [];
+  let heading = "";
+
+  $("h1, h2, h3, h4, h5, h6, table").each((_, el) => {
+    const $el = $(el);
+    if (el.tagName !== "table") {
+      heading = $el.text().trim();
+      return;
+    }
+
+    const rows = $el.find("tr").toArray().map((row) =>
+      $(row)
+        .children("th, td")
+        .toArray()
+        .map((cell) => $(cell).text().replace(/\s+/g, " ").trim())
+    );
+    if (rows.length < 2) return;
+
+    const header = rows[0].map((h) => h.toLowerCase());
+    // Matches "Guaranteed?" and the "Guranteed?" typo on some pages
+    const guaranteedCol = header.findIndex((h) => h.startsWith("gu"));
+    const typeCol = header.findIndex((h) => h === "type");
+    const nullableCol = header.findIndex((h) => h.startsWith("nullable"));
+    const descriptionCol = header.findIndex((h) => h.startsWith("description"));
+    if (descriptionCol <= 0 || (guaranteedCol <= 0 && typeCol <= 0)) return;
+
+    const tableVersion = findApiVersion(heading) ?? pageVersion;
+    const fields: SchemaField[] = [];
+
+    for (const cells of rows.slice(1)) {
+      const name = cells[0]?.replace(/[`*]/g, "").trim();
+      if (!name) continue;
+
+      const description = cells[descriptionCol] ?? "";
+      const guaranteedText = guaranteedCol > 0 ? (cells[guaranteedCol] ?? "") : "";
+      const guaranteed = /^(gu|yes)/i.test(guaranteedText);
+      const enumValues = parseEnumValues(description);
+      const type = typeCol > 0 && cells[typeCol] ? cells[typeCol] : inferType(name, description, enumValues);
+      const nullable = parseNullable(nullableCol > 0 ? (cells[nullableCol] ?? "") : null, description);
+
+      fields.push({
+        name,
+        type,
+        guaranteed,
+        ...(nullable !== undefined && { nullable }),
+        enum: enumValues,
+        description,
+        apiVersion: /\bv3\.1 only\b|\bin API v3\.1\b/i.test(description) ? "v3.1" : tableVersion,
+      });
+    }
+
+    if (fields.length > 0) {
+      tables.push({ heading, apiVersion: tableVersion, fields });
+    }
+  });
+
+  return tables;
+}
+
+/**
+ * Group each page's schema tables into one definition per data-model object,
+ * named after the page path ("/docs/courses" -> "courses").
+ */
+export function buildSchemaDefinitions(pages: CrawlResult[]): SchemaDefinition[] {
+  return pages
+    .filter((page) => page.schemas.length > 0)
+    .map((page) => ({
+      object: pageSlug(page.path),
+      title: page.title,
+      url: page.url,
+      path: page.path,
+      tables: page.schemas,
+    }))
+    .sort((a, b) => a.object.localeCompare(b.object));
+}
@@ -0,0 +1,84 @@
+import { getEmbedder, similarity } from "./embedder.ts";
+import { readSearchIndex, type SearchIndex } from "./index-build.ts";
+import { readChunk } from "./corpus.ts";
+import { OUTPUT_DIR, SEARCH_INDEX_FILE } from "./config.ts";
+import type { DocChunk } from "./chunk.ts";
+import { outputPaths } from "./site.ts";
+
+export interface SearchResult {
+  score: number;
+  chunk: DocChunk;
+}
+
+/**
+ * Rank chunks in the index against a query. Hits are looked up with
+ * `lookup`, from the published chunks by default.
+ */
+export async function search(
+  query: string,
+  limit = 5,
+  index: SearchIndex | null = readSearchIndex(),
+  lookup: (id: string) => DocChunk | null = (id) => readChunk(id)
+): Promise<SearchResult[]> {
+  if (!index) {
+    throw new Error(`No search index found at ${SEARCH_INDEX_FILE}. Run the crawl or index build first.`);
+  }
+
+  const embedder = getEmbedder(index.embedder);
+  const [queryVector] = await embedder.embed([query], index.state);
+
+  return index.entries
+    .map((entry) => ({ id: entry.id, score: similarity(queryVector, entry.vector) }))
+    .filter((hit) => hit.score > 0)
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+    .slice(0, limit)
+    .map((hit) => ({ score: hit.score, chunk: lookup(hit.id) }))
+    .filter((result): result is SearchResult => result.chunk !== null);
+}
+
+function snippet(content: string, length = 200): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  return text.length > length ? `${text.slice(0, length)}...` : text;
+}
+
+// CLI: bun run search "<query>" [--limit N] [--json] [--dir <output dir>]
+if (import.meta.main) {
+  const USAGE = 'Usage: bun run search "<query>" [--limit N] [--json] [--dir <output dir>]';
+  const args = process.argv.slice(2);
+  const limitIndex = args.indexOf("--limit");
+  const dirIndex = args.indexOf("--dir");
+  const limitArg = limitIndex >= 0 ? args[limitIndex + 1] : "5";
+  const paths = outputPaths(dirIndex >= 0 ? args[dirIndex + 1] : OUTPUT_DIR);
+  const asJson = args.includes("--json");
+  const optionValues = [limitIndex, dirIndex].filter((i) => i >= 0).map((i) => i + 1);
+  const query = args.filter((arg, i) => !arg.startsWith("--") && !optionValues.includes(i)).join(" ");
+
+  if (!query) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  if (!/^\d+$/.test(limitArg ?? "") || Number(limitArg) < 1) {
+    console.error(`--limit must be a positive integer, got "${limitArg ?? ""}"\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const index = readSearchIndex(paths.searchIndexFile);
+  if (!index) {
+    console.error(`No search index found at ${paths.searchIndexFile}. Run the crawl or index build first.`);
+    process.exit(1);
+  }
+
+  const results = await search(query, Number(limitArg), index, (id) => readChunk(id, paths.chunksDir));
+
+  if (asJson) {
+    console.log(JSON.stringify(results, null, 2));
+  } else if (results.length === 0) {
+    console.log(`No results for "${query}".`);
+  } else {
+    results.forEach(({ score, chunk }, i) => {
+      console.log(`${i + 1}. [${score.toFixed(3)}] ${chunk.parentHeadings.join(" > ")}`);
+      console.log(`   ${chunk.url}  (${chunk.id})`);
+      console.log(`   ${snippet(chunk.content)}\n`);
+    });
+  }
+}
@@ -0,0 +1,106 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  DEFAULT_SITE,
+  isSitePath,
+  loadSpiderConfig,
+  outputPaths,
+  resolveSite,
+  siteUrl,
+  toSitePath,
+} from "./site.ts";
+import { CACHE_FILE, CHUNKS_DIR, MANIFEST_FILE, SEARCH_INDEX_FILE } from "./config.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "spider-config-"));
+afterAll(() => rmSync(dir, { recursive: true }));
+
+describe("site config", () => {
+  test("the default profile writes to the existing docs/ layout", () => {
+    const paths = outputPaths(DEFAULT_SITE.outputDir);
+    expect(paths.chunksDir).toBe(CHUNKS_DIR);
+    expect(paths.manifestFile).toBe(MANIFEST_FILE);
+    expect(paths.searchIndexFile).toBe(SEARCH_INDEX_FILE);
+    expect(paths.cacheFile).toBe(CACHE_FILE);
+  });
+
+  test("fills in defaults for a minimal site", () => {
+    const site = resolveSite({ name: "vendor", baseUrl: "https://docs.vendor.test/" });
+    expect(site.baseUrl).toBe("https://docs.vendor.test");
+    expect(site.outputDir).toBe("docs/vendor");
+    expect(site.contentSelectors).toEqual(DEFAULT_SITE.contentSelectors);
+    expect(site.requiredPages).toEqual([]);
+  });
+
+  test("rejects sites without a name or base URL", () => {
+    expect(() => resolveSite({ name: "vendor" })).toThrow('"baseUrl"');
+  });
+
+  test("loads JSON and TypeScript config files", async () => {
+    const sites = [
+      { name: "clever-support", baseUrl: "https://support.clever.test", include: ["/hc/en-us/articles/*"] },
+      { name: "vendor", baseUrl: "https://docs.vendor.test", outputDir: "out/vendor" },
+    ];
+    writeFileSync(join(dir, "spider.config.json"), JSON.stringify({ sites }));
+    writeFileSync(join(dir, "spider.config.ts"), `export default ${JSON.stringify({ sites })};`);
+
+    for (const file of ["spider.config.json", "spider.config.ts"]) {
+      const config = await loadSpiderConfig(join(dir, file));
+      expect(config.sites.map((s) => [s.name, s.outputDir])).toEqual([
+        ["clever-support", "docs/clever-support"],
+        ["vendor", "out/vendor"],
+      ]);
+    }
+  });
+
+  test("rejects configs where two sites share an output directory", async () => {
+    const file = join(dir, "clash.json");
+    writeFileSync(
+      file,
+      JSON.stringify({
+        sites: [
+          { name: "a", baseUrl: "https://a.test", outputDir: "docs" },
+          { name: "b", baseUrl: "https://b.test", outputDir: "docs" },
+        ],
+      })
+    );
+    await expect(loadSpiderConfig(file)).rejects.toThrow('outputDir "docs"');
+  });
+});
+
+describe("path scoping", () => {
+  const site = resolveSite({
+    name: "support",
+    baseUrl: "https://support.clever.test",
+    include: ["/hc/*/articles/**"],
+    exclude: ["/hc/*/articles/*-draft"],
+  });
+
+  test("matches include and exclude globs", () => {
+    expect(isSitePath(site, "/hc/en-us/articles/360-rostering")).toBe(true);
+    expect(isSitePath(site, "/hc/en-us/articles/360-rostering-draft")).toBe(false);
+    expect(isSitePath(site, "/hc/en-us/sections/1")).toBe(false);
+    expect(isSitePath(DEFAULT_SITE, "/docs")).toBe(false);
+    expect(isSitePath(DEFAULT_SITE, "/docs/users")).toBe(true);
+  });
+
+  test("resolves links relative to the page and drops other hosts", () => {
+    const from = "https://support.clever.test/hc/en-us/articles/1";
+    expect(toSitePath(site, "2-logins/?utm=x", from)).toBe("/hc/en-us/articles/2-logins");
+    expect(toSitePath(site, "https://support.clever.test/hc/fr/articles/3", from)).toBe("/hc/fr/articles/3");
+    expect(toSitePath(site, "https://clever.com/hc/en-us/articles/4", from)).toBeNull();
+    expect(toSitePath(site, "mailto:help@clever.test", from)).toBeNull();
+  });
+
+  test("keeps page paths relative to a base URL with a path prefix", () => {
+    const dev = resolveSite({ name: "dev", baseUrl: "https://host.clever.test/dev/" });
+    expect(toSitePath(dev, "/dev/docs/users", "https://host.clever.test/dev/docs/oauth")).toBe("/docs/users");
+    expect(toSitePath(dev, "users", "https://host.clever.test/dev/docs/oauth")).toBe("/docs/users");
+    expect(toSitePath(dev, "/docs/users")).toBeNull();
+    expect(siteUrl(dev, "/docs/users")).toBe("https://host.clever.test/dev/docs/users");
+    expect(siteUrl(dev, toSitePath(dev, "https://host.clever.test/dev/docs/users")!)).toBe(
+      "https://host.clever.test/dev/docs/users"
+    );
+  });
+});
@@ -0,0 +1,221 @@
+import { existsSync, readFileSync } from "fs";
+import { basename, join, resolve } from "path";
+import {
+  SITE_NAME,
+  SITE_TITLE,
+  SITE_DESCRIPTION,
+  BASE_URL,
+  SEED_URLS,
+  INCLUDE_PATHS,
+  EXCLUDE_PATHS,
+  CONTENT_SELECTORS,
+  REMOVE_SELECTORS,
+  REDACTION_RULES,
+  TAG_RULES,
+  REQUIRED_PAGES,
+  OUTPUT_DIR,
+  CHUNKS_DIR,
+  MANIFEST_FILE,
+  SCHEMAS_DIR,
+  OPENAPI_DIR,
+  EXAMPLES_DIR,
+  SNAPSHOTS_DIR,
+  NAVIGATION_FILE,
+  GRAPH_FILE,
+  ERRORS_FILE,
+  CRAWL_REPORT_FILE,
+  SEARCH_INDEX_FILE,
+  CACHE_FILE,
+} from "./config.ts";
+import type { CustomRedactionRule } from "./redact.ts";
+import type { TagRule } from "./tags.ts";
+
+/**
+ * One documentation site to crawl into its own output directory.
+ */
+export interface SiteConfig {
+  name: string;
+  title: string;
+  description: string;
+  baseUrl: string;
+  // Section name -> page paths
+  seeds: Record<string, string[]>;
+  include: string[];
+  exclude: string[];
+  contentSelectors: string[];
+  removeSelectors: string[];
+  // Extra redaction rules, applied after the built-in ones
+  redactions: CustomRedactionRule[];
+  // API version/product/audience tagging rules
+  tags: TagRule[];
+  // Pages the crawl health gate insists on
+  requiredPages: string[];
+  outputDir: string;
+}
+
+export interface SpiderConfig {
+  sites: SiteConfig[];
+}
+
+/**
+ * The Clever developer docs, used when no --config is given.
+ */
+export const DEFAULT_SITE: SiteConfig = {
+  name: SITE_NAME,
+  title: SITE_TITLE,
+  description: SITE_DESCRIPTION,
+  baseUrl: BASE_URL,
+  seeds: SEED_URLS,
+  include: INCLUDE_PATHS,
+  exclude: EXCLUDE_PATHS,
+  contentSelectors: CONTENT_SELECTORS,
+  removeSelectors: REMOVE_SELECTORS,
+  redactions: REDACTION_RULES,
+  tags: TAG_RULES,
+  requiredPages: REQUIRED_PAGES,
+  outputDir: OUTPUT_DIR,
+};
+
+export interface OutputPaths {
+  outputDir: string;
+  chunksDir: string;
+  manifestFile: string;
+  schemasDir: string;
+  openapiDir: string;
+  examplesDir: string;
+  snapshotsDir: string;
+  navigationFile: string;
+  graphFile: string;
+  errorsFile: string;
+  crawlReportFile: string;
+  searchIndexFile: string;
+  cacheFile: string;
+}
+
+/**
+ * Where a site's output goes. The file names match the default docs/ layout.
+ */
+export function outputPaths(outputDir: string): OutputPaths {
+  return {
+    outputDir,
+    chunksDir: join(outputDir, basename(CHUNKS_DIR)),
+    manifestFile: join(outputDir, basename(MANIFEST_FILE)),
+    schemasDir: join(outputDir, basename(SCHEMAS_DIR)),
+    openapiDir: join(outputDir, basename(OPENAPI_DIR)),
+    examplesDir: join(outputDir, basename(EXAMPLES_DIR)),
+    snapshotsDir: join(outputDir, basename(SNAPSHOTS_DIR)),
+    navigationFile: join(outputDir, basename(NAVIGATION_FILE)),
+    graphFile: join(outputDir, basename(GRAPH_FILE)),
+    errorsFile: join(outputDir, basename(ERRORS_FILE)),
+    crawlReportFile: join(outputDir, basename(CRAWL_REPORT_FILE)),
+    searchIndexFile: join(outputDir, basename(SEARCH_INDEX_FILE)),
+    cacheFile: join(outputDir, basename(CACHE_FILE)),
+  };
+}
+
+/**
+ * Fill in a site read from a config file. `name` and `baseUrl` are required;
+ * pages and selectors default to the ReadMe conventions, required pages to
+ * none, and output to docs/<name>.
+ */
+export function resolveSite(input: Partial<SiteConfig>): SiteConfig {
+  if (!input.name || !input.baseUrl) {
+    throw new Error(`Every site needs a "name" and a "baseUrl" (got ${JSON.stringify(input)})`);
+  }
+
+  return {
+    name: input.name,
+    title: input.title ?? input.name,
+    description: input.description ?? "",
+    baseUrl: input.baseUrl.replace(/\/$/, ""),
+    seeds: input.seeds ?? {},
+    include: input.include ?? INCLUDE_PATHS,
+    exclude: input.exclude ?? EXCLUDE_PATHS,
+    contentSelectors: input.contentSelectors ?? CONTENT_SELECTORS,
+    removeSelectors: input.removeSelectors ?? REMOVE_SELECTORS,
+    redactions: input.redactions ?? [],
+    tags: input.tags ?? [],
+    requiredPages: input.requiredPages ?? [],
+    outputDir: input.outputDir ?? join(OUTPUT_DIR, input.name),
+  };
+}
+
+/**
+ * Load a spider.config.json, or a spider.config.ts whose default export is
+ * the config object.
+ */
+export async function loadSpiderConfig(file: string): Promise<SpiderConfig> {
+  const path = resolve(file);
+  if (!existsSync(path)) {
+    throw new Error(`Config file not found: ${file}`);
+  }
+
+  const raw = /\.[cm]?[jt]s$/.test(path)
+    ? (await import(path)).default
+    : JSON.parse(readFileSync(path, "utf-8"));
+
+  if (!Array.isArray(raw?.sites) || raw.sites.length === 0) {
+    throw new Error(`${file} must define a non-empty "sites" array`);
+  }
+
+  const sites = (raw.sites as Array<Partial<SiteConfig>>).map(resolveSite);
+  for (const key of ["name", "outputDir"] as const) {
+    const seen = new Set<string>();
+    for (const site of sites) {
+      if (seen.has(site[key])) {
+        throw new Error(`${file}: more than one site with ${key} "${site[key]}"`);
+      }
+      seen.add(site[key]);
+    }
+  }
+
+  return { sites };
+}
+
+function globPattern(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\*\*|\*/g, (m) => (m === "**" ? ".*" : "[^/]*"))}$`);
+}
+
+/**
+ * Whether a path is in scope for the site: matches an include glob and no
+ * exclude glob.
+ */
+export function isSitePath(site: SiteConfig, path: string): boolean {
+  return (
+    site.include.some((glob) => globPattern(glob).test(path)) &&
+    !site.exclude.some((glob) => globPattern(glob).test(path))
+  );
+}
+
+/**
+ * The URL of a page path on the site. Page paths are relative to the base
+ * URL, so a base URL like https://host/dev keeps its /dev prefix.
+ */
+export function siteUrl(site: SiteConfig, path: string): string {
+  return new URL(path.replace(/^\//, ""), `${site.baseUrl}/`).href;
+}
+
+/**
+ * Resolve a link to an in-scope page path on the site (no trailing slash,
+ * query or fragment, and relative to the base URL's path), or null for
+ * links elsewhere.
+ */
+export function toSitePath(site: SiteConfig, href: string | undefined, from = `${site.baseUrl}/`): string | null {
+  if (!href) return null;
+
+  let url: URL;
+  try {
+    url = new URL(href, from);
+  } catch {
+    return null;
+  }
+  const base = new URL(site.baseUrl);
+  if (url.origin !== base.origin) return null;
+
+  const prefix = base.pathname.replace(/\/$/, "");
+  if (prefix && url.pathname !== prefix && !url.pathname.startsWith(`${prefix}/`)) return null;
+
+  const path = url.pathname.slice(prefix.length).replace(/\/$/, "");
+  return isSitePath(site, path) ? path : null;
+}
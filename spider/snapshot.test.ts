@@ -0,0 +1,125 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { DocChunk } from "./chunk.ts";
+import { loadCorpus, type Manifest } from "./corpus.ts";
+import { chunkHistory, listSnapshots, materializeSnapshot, snapshotAsOf, writeSnapshot } from "./snapshot.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "spider-snapshots-"));
+afterAll(() => rmSync(dir, { recursive: true }));
+
+function chunk(id: string, content: string, crawledAt: string): DocChunk {
+  return {
+    id,
+    url: `https://docs.fixture.test/docs/${id}`,
+    anchorUrl: `https://docs.fixture.test/docs/${id}`,
+    path: `/docs/${id}`,
+    section: "Fixtures",
+    title: id,
+    heading: id,
+    headingLevel: 1,
+    parentHeadings: [id],
+    content,
+    tokenEstimate: content.length,
+    crawledAt,
+    fetchMethod: "static",
+    chunkIndex: 0,
+    totalChunks: 1,
+  };
+}
+
+function manifest(generatedAt: string, chunks: DocChunk[]): Manifest {
+  return {
+    generatedAt,
+    totalPages: chunks.length,
+    totalChunks: chunks.length,
+    totalTokenEstimate: chunks.reduce((sum, c) => sum + c.tokenEstimate, 0),
+    tokenizer: "test",
+    sections: ["Fixtures"],
+    chunks: chunks.map((c) => ({
+      id: c.id,
+      file: `chunks/${c.id}.json`,
+      url: c.url,
+      anchorUrl: c.anchorUrl,
+      path: c.path,
+      section: c.section,
+      title: c.title,
+      heading: c.heading,
+      parentHeadings: c.parentHeadings,
+      tokenEstimate: c.tokenEstimate,
+      chunkIndex: c.chunkIndex,
+      totalChunks: c.totalChunks,
+    })),
+    aliases: {},
+    duplicateOf: {},
+  };
+}
+
+function crawl(generatedAt: string, pages: Record<string, string>) {
+  const chunks = Object.entries(pages).map(([id, content]) => chunk(id, content, generatedAt));
+  return writeSnapshot(manifest(generatedAt, chunks), chunks, dir);
+}
+
+describe("snapshots", () => {
+  const march = crawl("2026-03-02T06:00:00.000Z", { events: "Events v1", users: "Users" });
+  const sameAgain = crawl("2026-03-09T06:00:00.000Z", { events: "Events v1", users: "Users" });
+  const april = crawl("2026-04-06T06:00:00.000Z", { events: "Events v2", users: "Users" });
+  const may = crawl("2026-05-04T06:00:00.000Z", { users: "Users" });
+
+  test("stores unchanged chunks once and skips snapshots with no changes", () => {
+    expect(march?.newObjects).toBe(2);
+    expect(sameAgain).toBeNull();
+    expect(april?.newObjects).toBe(1);
+    expect(may?.newObjects).toBe(0);
+    expect(listSnapshots(dir).map((s) => s.id)).toEqual([
+      "2026-03-02T06-00-00-000Z",
+      "2026-04-06T06-00-00-000Z",
+      "2026-05-04T06-00-00-000Z",
+    ]);
+    // Three chunk objects and two manifests: April only changed chunk
+    // content, so its manifest is March's
+    expect(readdirSync(join(dir, "objects"))).toHaveLength(5);
+    expect(listSnapshots(dir)[0]).toMatchObject({ totalPages: 2, totalChunks: 2 });
+  });
+
+  test("never overwrites a snapshot", () => {
+    expect(() => crawl("2026-05-04T06:00:00.000Z", { users: "Users v2" })).toThrow();
+  });
+
+  test("finds the snapshot in effect on a date", () => {
+    expect(snapshotAsOf("2026-03-31", dir)?.id).toBe("2026-03-02T06-00-00-000Z");
+    expect(snapshotAsOf("2026-04-06", dir)?.id).toBe("2026-04-06T06-00-00-000Z");
+    expect(snapshotAsOf("2026-04-06T05:00:00Z", dir)?.id).toBe("2026-03-02T06-00-00-000Z");
+    expect(snapshotAsOf("2026-01-01", dir)).toBeNull();
+    expect(() => snapshotAsOf("last march", dir)).toThrow("Not a date");
+  });
+
+  test("materializes a snapshot in the docs/ layout", () => {
+    const out = join(dir, "as-of-march");
+    materializeSnapshot(snapshotAsOf("2026-03-31", dir)!, out, dir);
+    const corpus = loadCorpus(out);
+    expect(corpus.manifest.generatedAt).toBe("2026-03-02T06:00:00.000Z");
+    expect(corpus.chunks.map((c) => c.content)).toEqual(["Events v1", "Users"]);
+  });
+
+  test("refuses to materialize into a live output directory", () => {
+    const snapshot = snapshotAsOf("2026-03-31", dir)!;
+    const live = join(dir, "live");
+    expect(() => materializeSnapshot(snapshot, live, join(live, "snapshots"))).toThrow("live corpus");
+
+    mkdirSync(join(live, "chunks"), { recursive: true });
+    writeFileSync(join(live, "crawl-cache.json"), "{}");
+    expect(() => materializeSnapshot(snapshot, live, dir)).toThrow("live corpus");
+    expect(existsSync(join(live, "chunks"))).toBe(true);
+  });
+
+  test("lists a chunk's revisions", () => {
+    expect(chunkHistory("events", dir).map((r) => [r.createdAt, r.status, r.tokenEstimate])).toEqual([
+      ["2026-03-02T06:00:00.000Z", "added", 9],
+      ["2026-04-06T06:00:00.000Z", "changed", 9],
+      ["2026-05-04T06:00:00.000Z", "removed", null],
+    ]);
+    expect(chunkHistory("users", dir)).toHaveLength(1);
+  });
+});
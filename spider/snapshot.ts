@@ -0,0 +1,267 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { dirname, join, resolve } from "path";
+import { SNAPSHOTS_DIR } from "./config.ts";
+import { hashContent } from "./cache.ts";
+import type { DocChunk } from "./chunk.ts";
+import type { Manifest } from "./corpus.ts";
+import { outputPaths } from "./site.ts";
+
+export interface SnapshotChunk {
+  // Hash of the stored chunk file under objects/
+  object: string;
+  // Hash of the chunk's content alone, for revision history
+  contentHash: string;
+}
+
+/**
+ * The published corpus at one point in time. Snapshot files are written
+ * once and never modified; the manifest and chunks live in content-addressed
+ * objects shared between snapshots, so unchanged ones are only stored once.
+ */
+export interface Snapshot {
+  id: string;
+  createdAt: string;
+  // Hash of the stored manifest under objects/, without its generatedAt
+  manifest: string;
+  totalPages: number;
+  totalChunks: number;
+  chunks: Record<string, SnapshotChunk>;
+}
+
+export interface ChunkRevision {
+  snapshot: string;
+  createdAt: string;
+  status: "added" | "changed" | "removed";
+  contentHash: string | null;
+  tokenEstimate: number | null;
+}
+
+const OBJECTS = "objects";
+
+/**
+ * Hash of everything stored for a chunk except when it was crawled, so
+ * re-crawling an unchanged page reuses its objects.
+ */
+export function hashChunk(chunk: DocChunk): string {
+  const { crawledAt: _, ...rest } = chunk;
+  return hashContent(JSON.stringify(rest));
+}
+
+/**
+ * Hash of a manifest without when it was generated, which the snapshot
+ * records as createdAt.
+ */
+function manifestObject(manifest: Manifest): { hash: string; stored: Omit<Manifest, "generatedAt"> } {
+  const { generatedAt: _, ...stored } = manifest;
+  return { hash: hashContent(JSON.stringify(stored)), stored };
+}
+
+function snapshotId(createdAt: string): string {
+  return createdAt.replace(/[:.]/g, "-");
+}
+
+function objectFile(dir: string, hash: string): string {
+  return join(dir, OBJECTS, `${hash}.json`);
+}
+
+function sameChunks(a: Record<string, SnapshotChunk>, b: Record<string, SnapshotChunk>): boolean {
+  const ids = Object.keys(a);
+  return ids.length === Object.keys(b).length && ids.every((id) => a[id].object === b[id]?.object);
+}
+
+/**
+ * All snapshots in a directory, oldest first.
+ */
+export function listSnapshots(dir = SNAPSHOTS_DIR): Snapshot[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => JSON.parse(readFileSync(join(dir, file), "utf-8")) as Snapshot)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Record the corpus as a new snapshot. Returns null without writing
+ * anything when no chunk changed since the latest snapshot.
+ */
+export function writeSnapshot(
+  manifest: Manifest,
+  chunks: DocChunk[],
+  dir = SNAPSHOTS_DIR
+): { snapshot: Snapshot; newObjects: number } | null {
+  const entries: Record<string, SnapshotChunk> = {};
+  for (const chunk of chunks) {
+    entries[chunk.id] = { object: hashChunk(chunk), contentHash: hashContent(chunk.content) };
+  }
+
+  const latest = listSnapshots(dir).at(-1);
+  if (latest && sameChunks(latest.chunks, entries)) {
+    return null;
+  }
+
+  mkdirSync(join(dir, OBJECTS), { recursive: true });
+  let newObjects = 0;
+  for (const chunk of chunks) {
+    const file = objectFile(dir, entries[chunk.id].object);
+    if (existsSync(file)) continue;
+    writeFileSync(file, JSON.stringify(chunk, null, 2));
+    newObjects++;
+  }
+
+  const { hash, stored } = manifestObject(manifest);
+  const manifestFile = objectFile(dir, hash);
+  if (!existsSync(manifestFile)) {
+    writeFileSync(manifestFile, JSON.stringify(stored, null, 2));
+  }
+
+  const snapshot: Snapshot = {
+    id: snapshotId(manifest.generatedAt),
+    createdAt: manifest.generatedAt,
+    manifest: hash,
+    totalPages: manifest.totalPages,
+    totalChunks: manifest.totalChunks,
+    chunks: entries,
+  };
+  // "wx" fails rather than overwrite an existing snapshot
+  writeFileSync(join(dir, `${snapshot.id}.json`), JSON.stringify(snapshot, null, 2), { flag: "wx" });
+  return { snapshot, newObjects };
+}
+
+/**
+ * The latest snapshot taken at or before `date`. A date without a time
+ * means the end of that day (UTC).
+ */
+export function snapshotAsOf(date: string, dir = SNAPSHOTS_DIR): Snapshot | null {
+  const cutoff = /^\d{4}-\d{2}-\d{2}$/.test(date) ? new Date(`${date}T23:59:59.999Z`) : new Date(date);
+  if (Number.isNaN(cutoff.getTime())) {
+    throw new Error(`Not a date: ${date}`);
+  }
+  return listSnapshots(dir).findLast((s) => new Date(s.createdAt) <= cutoff) ?? null;
+}
+
+function readObject<T>(snapshot: Snapshot, hash: string, dir: string): T {
+  const file = objectFile(dir, hash);
+  if (!existsSync(file)) {
+    throw new Error(`Snapshot ${snapshot.id} is missing object ${file}`);
+  }
+  return JSON.parse(readFileSync(file, "utf-8")) as T;
+}
+
+/**
+ * Read a snapshot's manifest back from the object store.
+ */
+export function snapshotManifest(snapshot: Snapshot, dir = SNAPSHOTS_DIR): Manifest {
+  const stored = readObject<Omit<Manifest, "generatedAt">>(snapshot, snapshot.manifest, dir);
+  return { generatedAt: snapshot.createdAt, ...stored };
+}
+
+/**
+ * Read a snapshot's chunks back from the object store, in manifest order.
+ */
+export function snapshotChunks(snapshot: Snapshot, dir = SNAPSHOTS_DIR): DocChunk[] {
+  return snapshotManifest(snapshot, dir).chunks.map((entry) =>
+    readObject<DocChunk>(snapshot, snapshot.chunks[entry.id].object, dir)
+  );
+}
+
+/**
+ * Whether a directory holds a live corpus: the one the snapshots were
+ * taken of, or any output directory with a crawl cache or snapshots.
+ */
+function isLiveOutputDir(outDir: string, dir: string): boolean {
+  const paths = outputPaths(outDir);
+  return (
+    resolve(outDir) === dirname(resolve(dir)) || existsSync(paths.snapshotsDir) || existsSync(paths.cacheFile)
+  );
+}
+
+/**
+ * Write a snapshot out in the docs/ layout (manifest.json plus chunks/),
+ * so anything that reads the published corpus can read it. Refuses to
+ * write over a live output directory, whose chunks/ it would replace.
+ */
+export function materializeSnapshot(snapshot: Snapshot, outDir: string, dir = SNAPSHOTS_DIR): void {
+  if (isLiveOutputDir(outDir, dir)) {
+    throw new Error(`${outDir} holds a live corpus; materialize the snapshot into another directory`);
+  }
+  const chunks = snapshotChunks(snapshot, dir);
+  const chunksDir = join(outDir, "chunks");
+  if (existsSync(chunksDir)) {
+    rmSync(chunksDir, { recursive: true });
+  }
+  mkdirSync(chunksDir, { recursive: true });
+  for (const chunk of chunks) {
+    writeFileSync(join(chunksDir, `${chunk.id}.json`), JSON.stringify(chunk, null, 2));
+  }
+  writeFileSync(join(outDir, "manifest.json"), JSON.stringify(snapshotManifest(snapshot, dir), null, 2));
+}
+
+/**
+ * Every snapshot in which a chunk's content appeared, changed or went away.
+ */
+export function chunkHistory(id: string, dir = SNAPSHOTS_DIR): ChunkRevision[] {
+  const revisions: ChunkRevision[] = [];
+  let previous: string | null = null;
+
+  for (const snapshot of listSnapshots(dir)) {
+    const entry = snapshot.chunks[id];
+    const current = entry?.contentHash ?? null;
+    if (current === previous) continue;
+
+    const tokenEstimate = entry ? readObject<DocChunk>(snapshot, entry.object, dir).tokenEstimate : null;
+    revisions.push({
+      snapshot: snapshot.id,
+      createdAt: snapshot.createdAt,
+      status: current === null ? "removed" : previous === null ? "added" : "changed",
+      contentHash: current,
+      tokenEstimate,
+    });
+    previous = current;
+  }
+
+  return revisions;
+}
+
+// CLI: bun run snapshots list | as-of <date> --out <dir> | history <chunk id> [--dir <snapshots dir>]
+if (import.meta.main) {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const i = args.indexOf(name);
+    return i >= 0 ? args[i + 1] : undefined;
+  };
+  const dir = option("--dir") ?? SNAPSHOTS_DIR;
+  const [command, arg] = args;
+  const usage =
+    "Usage: bun run snapshots list | as-of <date> --out <dir> | history <chunk id> [--dir <snapshots dir>]";
+
+  if (command === "list") {
+    const snapshots = listSnapshots(dir);
+    if (snapshots.length === 0) console.log(`No snapshots in ${dir}.`);
+    for (const s of snapshots) {
+      console.log(`${s.id}  ${s.totalPages} pages, ${s.totalChunks} chunks`);
+    }
+  } else if (command === "as-of" && arg && option("--out")) {
+    const snapshot = snapshotAsOf(arg, dir);
+    if (!snapshot) {
+      console.error(`No snapshot taken on or before ${arg}.`);
+      process.exit(1);
+    }
+    try {
+      materializeSnapshot(snapshot, option("--out")!, dir);
+    } catch (err) {
+      console.error(err instanceof Error ? err.message : err);
+      process.exit(1);
+    }
+    console.log(`Wrote snapshot ${snapshot.id} (${snapshot.totalChunks} chunks) to ${option("--out")}`);
+  } else if (command === "history" && arg) {
+    const revisions = chunkHistory(arg, dir);
+    if (revisions.length === 0) console.log(`"${arg}" is not in any snapshot.`);
+    for (const r of revisions) {
+      const tokens = r.tokenEstimate === null ? "" : ` (${r.tokenEstimate} tokens)`;
+      console.log(`${r.createdAt}  ${r.status.padEnd(7)}  ${r.contentHash?.slice(0, 12) ?? ""}${tokens}`);
+    }
+  } else {
+    console.error(usage);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,102 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { DocChunk } from "./chunk.ts";
+import { TAG_RULES } from "./config.ts";
+import { parseTagFilterFlags, runExporters } from "./export.ts";
+import { filterSlug, matchesTagFilter, tagChunks } from "./tags.ts";
+import { FIXTURE_BASE_URL, fixtureSite } from "./__fixtures__/fixtures.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "spider-tags-"));
+afterAll(() => rmSync(dir, { recursive: true }));
+
+function chunk(path: string, section: string, title: string, content: string): DocChunk {
+  return {
+    id: `${path.split("/").pop()}-00`,
+    url: `${FIXTURE_BASE_URL}${path}`,
+    anchorUrl: `${FIXTURE_BASE_URL}${path}`,
+    path,
+    section,
+    title,
+    heading: title,
+    headingLevel: 1,
+    parentHeadings: [title],
+    content,
+    tokenEstimate: 10,
+    crawledAt: "<crawledAt>",
+    fetchMethod: "static",
+    chunkIndex: 0,
+    totalChunks: 1,
+  };
+}
+
+const [lms, migration, events, generic] = tagChunks(
+  [
+    chunk("/docs/lms-connect-overview", "LMS Connect (v3.1)", "LMS Connect Overview", "Write assignments."),
+    chunk(
+      "/docs/migrating-to-api-30",
+      "What's New",
+      "Migrating to API v3.0",
+      "Replace `GET /v2.1/students` with `GET /v3.0/users?role=student`."
+    ),
+    chunk("/docs/events-api", "District Rostering (Secure Sync)", "Events API", "Poll `/v3.1/events` for changes."),
+    chunk("/docs/security", "Getting Started", "Security", "Use TLS v1.2 or later."),
+  ],
+  TAG_RULES
+);
+
+describe("tagChunks", () => {
+  test("tags from path, section, title and content", () => {
+    expect(lms.apiVersions).toEqual(["v3.1"]);
+    expect(lms.products).toEqual(["LMS Connect"]);
+    expect(migration.apiVersions).toEqual(["v2.x", "v3.0"]);
+    expect(events.apiVersions).toEqual(["v3.1"]);
+    expect(events.products).toEqual(["Secure Sync"]);
+    expect(events.audience).toEqual(["district-integrations"]);
+  });
+
+  test("leaves fields off when nothing matches", () => {
+    expect(generic.apiVersions).toBeUndefined();
+    expect(generic.products).toBeUndefined();
+    expect(generic.audience).toBeUndefined();
+  });
+
+  test("replaces stale tags", () => {
+    const [retagged] = tagChunks([{ ...generic, apiVersions: ["v2.x"] }], TAG_RULES);
+    expect(retagged.apiVersions).toBeUndefined();
+  });
+
+  test("names the rule when its pattern doesn't compile", () => {
+    expect(() => tagChunks([generic], [{ field: "products", tag: "Broken", title: "(" }])).toThrow(
+      'Invalid tag rule "products: Broken"'
+    );
+  });
+});
+
+describe("matchesTagFilter", () => {
+  test("keeps matching and untagged chunks, drops ones for other versions", () => {
+    const v31 = { apiVersions: ["v3.1"] };
+    expect([lms, migration, events, generic].filter((c) => matchesTagFilter(c, v31))).toEqual([lms, events, generic]);
+    expect(matchesTagFilter(events, { apiVersions: ["v3.1"], products: ["LMS Connect"] })).toBe(false);
+  });
+
+  test("names filters for directories", () => {
+    expect(filterSlug({ apiVersions: ["v3.1"], products: ["LMS Connect"] })).toBe("v3.1_lms-connect");
+  });
+});
+
+describe("exports", () => {
+  test("parses filter flags", () => {
+    expect(
+      parseTagFilterFlags(["--export", "all", "--api-version", "v3.1", "--product=LMS Connect,Library", "--product", "SAML"])
+    ).toEqual({ apiVersions: ["v3.1"], products: ["LMS Connect", "Library", "SAML"] });
+  });
+
+  test("writes filtered exports next to the full ones", () => {
+    const site = { ...fixtureSite(), outputDir: dir };
+    const [file] = runExporters(["jsonl"], { site, pages: [], chunks: [lms, migration], filter: { apiVersions: ["v3.1"] } });
+    expect(file).toBe(join(dir, "filtered", "v3.1", "chunks.jsonl"));
+    expect(readFileSync(file, "utf-8").trim().split("\n").map((line) => JSON.parse(line).id)).toEqual([lms.id]);
+  });
+});
@@ -0,0 +1,103 @@
+import type { DocChunk } from "./chunk.ts";
+
+export type TagField = "apiVersions" | "products" | "audience";
+
+export const TAG_FIELDS: TagField[] = ["apiVersions", "products", "audience"];
+
+/**
+ * Assigns `tag` to chunks in `field`. Patterns are case-insensitive regex
+ * sources; the rule applies when any of them matches.
+ */
+export interface TagRule {
+  field: TagField;
+  tag: string;
+  path?: string;
+  section?: string;
+  title?: string;
+  // Matched against the chunk heading and its parent headings
+  headings?: string;
+  content?: string;
+}
+
+// Chunk field -> text a rule's pattern is matched against
+const SOURCES = {
+  path: (c: DocChunk) => c.path,
+  section: (c: DocChunk) => c.section,
+  title: (c: DocChunk) => c.title,
+  headings: (c: DocChunk) => [...c.parentHeadings, c.heading].join("\n"),
+  content: (c: DocChunk) => c.content,
+};
+
+interface CompiledTagRule {
+  field: TagField;
+  tag: string;
+  patterns: Array<{ source: keyof typeof SOURCES; pattern: RegExp }>;
+}
+
+/**
+ * Tags to keep, per field. A chunk passes a field when it has no tags there
+ * (it isn't specific to any version/product/audience) or shares one with
+ * the filter.
+ */
+export type TagFilter = Partial<Record<TagField, string[]>>;
+
+function compileTagRules(rules: TagRule[]): CompiledTagRule[] {
+  return rules.map((rule) => {
+    const patterns = (Object.keys(SOURCES) as Array<keyof typeof SOURCES>)
+      .filter((source) => rule[source])
+      .map((source) => {
+        try {
+          return { source, pattern: new RegExp(rule[source]!, "i") };
+        } catch (err) {
+          throw new Error(`Invalid tag rule "${rule.field}: ${rule.tag}": ${err instanceof Error ? err.message : err}`);
+        }
+      });
+    return { field: rule.field, tag: rule.tag, patterns };
+  });
+}
+
+/**
+ * Tag every chunk with the API versions, products and audiences its rules
+ * match, replacing any tags it already had. Empty fields are left off.
+ */
+export function tagChunks(chunks: DocChunk[], rules: TagRule[]): DocChunk[] {
+  const compiled = compileTagRules(rules);
+
+  return chunks.map(({ apiVersions: _v, products: _p, audience: _a, ...chunk }) => {
+    const tags: TagFilter = {};
+    for (const rule of compiled) {
+      if (tags[rule.field]?.includes(rule.tag)) continue;
+      if (rule.patterns.some(({ source, pattern }) => pattern.test(SOURCES[source](chunk)))) {
+        tags[rule.field] = [...(tags[rule.field] ?? []), rule.tag];
+      }
+    }
+    return { ...chunk, ...tags };
+  });
+}
+
+export function isEmptyFilter(filter: TagFilter): boolean {
+  return TAG_FIELDS.every((field) => !filter[field]?.length);
+}
+
+export function matchesTagFilter(chunk: DocChunk, filter: TagFilter): boolean {
+  return TAG_FIELDS.every((field) => {
+    const wanted = filter[field];
+    const tags = chunk[field];
+    return !wanted?.length || !tags?.length || tags.some((tag) => wanted.includes(tag));
+  });
+}
+
+/**
+ * Short name for a filter, usable as a directory name:
+ * { apiVersions: ["v3.1"], products: ["LMS Connect"] } -> "v3.1_lms-connect".
+ */
+export function filterSlug(filter: TagFilter): string {
+  return TAG_FIELDS.flatMap((field) => filter[field] ?? [])
+    .map((tag) =>
+      tag
+        .toLowerCase()
+        .replace(/[^a-z0-9.]+/g, "-")
+        .replace(/^-|-$/g, "")
+    )
+    .join("_");
+}
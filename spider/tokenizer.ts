@@ -0,0 +1,62 @@
+import { Tiktoken, type TiktokenBPE } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+import { TOKENIZER } from "./config.ts";
+
+export interface Tokenizer {
+  name: string;
+  count(text: string): number;
+}
+
+/**
+ * Offline BPE tokenizer from bundled tiktoken ranks (no downloads).
+ */
+function createBpeTokenizer(name: string, ranks: TiktokenBPE): Tokenizer {
+  const encoding = new Tiktoken(ranks);
+  return {
+    name,
+    // Treat special tokens like "<|endoftext|>" as plain text
+    count: (text) => encoding.encode(text, [], []).length,
+  };
+}
+
+/**
+ * The old ~4 chars per token heuristic, kept for quick experiments.
+ */
+function createCharsTokenizer(): Tokenizer {
+  return {
+    name: "chars/4",
+    count: (text) => Math.ceil(text.length / 4),
+  };
+}
+
+const TOKENIZERS: Record<string, () => Tokenizer> = {
+  cl100k_base: () => createBpeTokenizer("cl100k_base", cl100k_base),
+  o200k_base: () => createBpeTokenizer("o200k_base", o200k_base),
+  "chars/4": createCharsTokenizer,
+};
+
+const loaded = new Map<string, Tokenizer>();
+
+/**
+ * Look up a tokenizer by name. Encodings are loaded once and reused.
+ */
+export function getTokenizer(name = TOKENIZER): Tokenizer {
+  let tokenizer = loaded.get(name);
+  if (!tokenizer) {
+    const create = TOKENIZERS[name];
+    if (!create) {
+      throw new Error(`Unknown tokenizer "${name}". Available: ${Object.keys(TOKENIZERS).join(", ")}`);
+    }
+    tokenizer = create();
+    loaded.set(name, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * Count tokens with the configured tokenizer.
+ */
+export function countTokens(text: string): number {
+  return getTokenizer().count(text);
+}